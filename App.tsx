@@ -8,13 +8,134 @@ import {
   Download, 
   Loader2, 
   AlertCircle,
-  PlusCircle,
   Sparkles,
   RefreshCw,
-  Trash2
+  FileText,
+  FileUp,
+  Save,
+  FolderOpen,
+  MonitorPlay,
+  Undo2,
+  Redo2,
+  AudioLines
 } from 'lucide-react';
-import { AppStatus, SubtitleSegment, VideoMetadata } from './types';
-import { analyzeVideoWithGemini } from './services/geminiService';
+import {
+  AnalysisIssue,
+  AnalysisSettings,
+  AppStatus,
+  CaptionSettings,
+  ClipTransition,
+  CompositionSettings,
+  EditHistory,
+  EditSnapshot,
+  ExportContainer,
+  ExportSettings,
+  ProjectData,
+  RenderProgress,
+  SubtitleSegment,
+  SubtitleStyle,
+  SubtitleStylePreset,
+  VideoMetadata
+} from './types';
+import { createAnalysisProvider, loadAnalysisSettings, saveAnalysisSettings } from './services/analysisProvider';
+import { analyzeVideo, prepareAudioRefinement } from './services/analysisPipeline';
+import { runBatchJob } from './services/batchProcessor';
+import {
+  BatchJob,
+  BatchSettings,
+  batchOutputFiles,
+  createBatchJob,
+  isJobRunning,
+  jobsToStart,
+  loadBatchSettings,
+  retryJob,
+  saveBatchSettings
+} from './utils/batchQueue';
+import { createZip } from './utils/zip';
+import {
+  SubtitleFormat,
+  SUBTITLE_FORMATS,
+  SUBTITLE_MIME_TYPES,
+  parseSubtitleFile
+} from './utils/subtitleFormats';
+import { baseName, downloadBlob } from './utils/download';
+import { mergeSegments, replaceSegments, sortByStart } from './utils/segmentEditing';
+import SegmentEditor from './components/SegmentEditor';
+import ProjectList from './components/ProjectList';
+import AnalysisSettingsPanel from './components/AnalysisSettingsPanel';
+import AnalysisIssuesPanel from './components/AnalysisIssuesPanel';
+import SubtitleOverlay from './components/SubtitleOverlay';
+import SequencePreview from './components/SequencePreview';
+import RoughCutPanel from './components/RoughCutPanel';
+import SegmentFilterBar from './components/SegmentFilterBar';
+import SegmentCard from './components/SegmentCard';
+import TranslationPanel from './components/TranslationPanel';
+import ReframeOverlay from './components/ReframeOverlay';
+import ReframePanel from './components/ReframePanel';
+import RenderProgressPanel from './components/RenderProgressPanel';
+import BatchPanel from './components/BatchPanel';
+import CompositionPanel from './components/CompositionPanel';
+import { DEFAULT_COMPOSITION_SETTINGS, buildComposition, rebaseToComposition } from './utils/composition';
+import { isReframed, upsertKeyframe } from './utils/reframe';
+import { RoughCutOptions, loadRoughCutOptions, restoreIntoQueue, saveRoughCutOptions } from './utils/roughCut';
+import { DEFAULT_SEGMENT_FILTER, SegmentFilter, SegmentSort, filterSegments, rangeSelection } from './utils/segmentSearch';
+import {
+  DEFAULT_CAPTION_SETTINGS,
+  applyTranslations,
+  countUntranslated,
+  localizedSubtitleFiles,
+  removeLanguage,
+  translatedLanguages,
+  translationUnits,
+  withoutCaptionLanguage
+} from './utils/translation';
+import { EMPTY_HISTORY, canRedo, canUndo, packHistory, recordEdit, redoEdit, undoEdit, unpackHistory } from './utils/history';
+import SubtitleStylePanel from './components/SubtitleStylePanel';
+import {
+  ExportCapabilities,
+  RenderCancelledError,
+  probeExportCapabilities,
+  renderSegments
+} from './services/renderEngine';
+import ExportDialog from './components/ExportDialog';
+import Timeline from './components/Timeline';
+import { Thumbnail, computeWaveform, generateThumbnails, releaseThumbnails } from './services/mediaPreview';
+import { moveItem, replaceAt } from './utils/timeline';
+import {
+  extensionForMimeType,
+  loadExportSettings,
+  saveExportSettings,
+  outputSize
+} from './utils/exportSettings';
+import {
+  BUILT_IN_STYLE_PRESETS,
+  DEFAULT_SUBTITLE_STYLE,
+  loadCustomPresets,
+  saveCustomPresets
+} from './utils/subtitleStyle';
+import {
+  PROJECT_FILE_EXTENSION,
+  PROJECT_SCHEMA_VERSION,
+  createProjectId,
+  fingerprintVideo,
+  matchesFingerprint,
+  parseProjectFile,
+  serializeProject
+} from './utils/projectFile';
+import {
+  deleteProject,
+  listProjects,
+  loadProject,
+  loadVideoBlob,
+  saveProject,
+  saveVideoBlob
+} from './services/projectStore';
+
+// 自动保存的防抖间隔（毫秒）
+const AUTOSAVE_DELAY = 800;
+// 波形分辨率与缩略图间隔（秒）
+const WAVEFORM_BUCKETS = 4000;
+const THUMBNAIL_INTERVAL = 5;
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
@@ -23,210 +144,796 @@ const App: React.FC = () => {
   const [selectedSegments, setSelectedSegments] = useState<SubtitleSegment[]>([]);
   const [selectedText, setSelectedText] = useState<string>('');
   const [processingMsg, setProcessingMsg] = useState<string>('');
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  const [analysisIssues, setAnalysisIssues] = useState<AnalysisIssue[]>([]);
+  const [renderProgress, setRenderProgress] = useState<RenderProgress | null>(null);
+  const [cancellingRender, setCancellingRender] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  const [exportCapabilities, setExportCapabilities] = useState<ExportCapabilities | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [finalVideoExt, setFinalVideoExt] = useState('webm');
+  // 播放位置所在的队列片段，只在切换片段时更新；播放头本身由 Timeline 逐帧绘制
+  const [currentClipIndex, setCurrentClipIndex] = useState(-1);
+  const [waveform, setWaveform] = useState<Float32Array | null>(null);
+  const [thumbnails, setThumbnails] = useState<Thumbnail[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [finalVideoUrl, setFinalVideoUrl] = useState<string | null>(null);
+  const [exportScope, setExportScope] = useState<'all' | 'queue'>('all');
+  // IDLE 阶段预先导入的字幕，上传视频后直接使用，跳过 AI 分析
+  const [importedSegments, setImportedSegments] = useState<SubtitleSegment[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [project, setProject] = useState<{ id: string; createdAt: number } | null>(null);
+  const [projects, setProjects] = useState<ProjectData[]>([]);
+  const [relinkProject, setRelinkProject] = useState<ProjectData | null>(null);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(DEFAULT_SUBTITLE_STYLE);
+  const [customPresets, setCustomPresets] = useState<SubtitleStylePreset[]>(loadCustomPresets);
+  const [previewEnabled, setPreviewEnabled] = useState(true);
+  // 成片预览模式：按队列顺序在源视频上跳转播放，不经过渲染
+  const [sequencePreview, setSequencePreview] = useState(false);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [refining, setRefining] = useState(false);
+  const [segmentFilter, setSegmentFilter] = useState<SegmentFilter>(DEFAULT_SEGMENT_FILTER);
+  const [segmentSort, setSegmentSort] = useState<SegmentSort>('time');
+  // 右侧列表的多选状态与键盘浏览的当前项
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null);
+  const [captions, setCaptions] = useState<CaptionSettings>(DEFAULT_CAPTION_SETTINGS);
+  const [composition, setComposition] = useState<CompositionSettings>(DEFAULT_COMPOSITION_SETTINGS);
+  // 背景音乐只保存在内存中，重新打开项目需要重新选择
+  const [musicFile, setMusicFile] = useState<File | null>(null);
+  // 在播放器上拖动裁剪窗口；关键帧模式下每次拖动在播放头处添加关键帧
+  const [cropEditing, setCropEditing] = useState(false);
+  const [cropKeyframeMode, setCropKeyframeMode] = useState(false);
+  const [translating, setTranslating] = useState<{ language: string; message: string } | null>(null);
+  const [roughCutOptions, setRoughCutOptions] = useState<RoughCutOptions>(loadRoughCutOptions);
+  // 多文件上传进入批量队列，与当前打开的项目互不影响
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchSettings, setBatchSettings] = useState<BatchSettings>(loadBatchSettings);
+  const [packagingBatch, setPackagingBatch] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  // 最新的可编辑状态；同一事件循环内连续编辑时 state 尚未更新，以此为准
+  const editStateRef = useRef<EditSnapshot>({ segments, selectedSegments });
+  editStateRef.current = { segments, selectedSegments };
 
   useEffect(() => {
     const text = selectedSegments.map(s => s.text).join('\n');
     setSelectedText(text);
   }, [selectedSegments]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  useEffect(() => {
+    saveAnalysisSettings(analysisSettings);
+  }, [analysisSettings]);
+
+  const analysisProvider = createAnalysisProvider(analysisSettings);
+
+  useEffect(() => {
+    saveExportSettings(exportSettings);
+  }, [exportSettings]);
+
+  useEffect(() => {
+    saveBatchSettings(batchSettings);
+  }, [batchSettings]);
+
+  const updateBatchJob = (id: string) => (update: (job: BatchJob) => BatchJob) =>
+    setBatchJobs(prev => prev.map(job => (job.id === id ? update(job) : job)));
+
+  // 批量调度：有空闲名额时按加入顺序启动排队任务，分析与粗剪使用启动时的设置，
+  // 样式与成片设置使用加入队列时的快照（job.render）
+  useEffect(() => {
+    for (const job of jobsToStart(batchJobs, batchSettings.concurrency)) {
+      runBatchJob(job, {
+        provider: analysisProvider,
+        analysisSettings,
+        roughCutOptions,
+        update: updateBatchJob(job.id)
+      });
+    }
+  }, [batchJobs, batchSettings.concurrency]);
+
+  // 跟踪当前所在片段：索引不变时 setState 直接跳过，不会逐帧重渲染整个应用
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const t = videoRef.current?.currentTime;
+      if (t !== undefined) setCurrentClipIndex(selectedSegments.findIndex(c => t >= c.startTime && t < c.endTime));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [selectedSegments]);
 
+  // 为时间线生成波形和缩略图，换视频或关闭项目时丢弃上一次的结果并释放缩略图位图
+  useEffect(() => {
+    setWaveform(null);
+    setThumbnails([]);
+    if (!video) return;
+    let cancelled = false;
+    let generated: Thumbnail[] = [];
+    computeWaveform(video.file, WAVEFORM_BUCKETS)
+      .then(peaks => { if (!cancelled) setWaveform(peaks); })
+      .catch(err => console.warn("波形生成失败", err));
+    generateThumbnails(video.file, THUMBNAIL_INTERVAL)
+      .then(images => {
+        if (cancelled) return releaseThumbnails(images);
+        generated = images;
+        setThumbnails(images);
+      })
+      .catch(err => console.warn("缩略图生成失败", err));
+    return () => {
+      cancelled = true;
+      releaseThumbnails(generated);
+    };
+  }, [video?.file]);
+
+  const refreshProjects = () => {
+    listProjects().then(setProjects).catch(err => console.error("读取项目列表失败", err));
+  };
+
+  // 批量任务保存项目后刷新列表
+  const batchProjectCount = batchJobs.filter(job => job.projectId).length;
+
+  useEffect(() => {
+    if (status === AppStatus.IDLE) refreshProjects();
+  }, [status, batchProjectCount]);
+
+  const buildProject = (): ProjectData | null => {
+    if (!project || !video) return null;
+    return {
+      version: PROJECT_SCHEMA_VERSION,
+      id: project.id,
+      name: video.name,
+      createdAt: project.createdAt,
+      updatedAt: Date.now(),
+      video: fingerprintVideo(video),
+      segments,
+      selectedSegments,
+      style: subtitleStyle,
+      history: packHistory(history),
+      captions,
+      composition
+    };
+  };
+
+  const autosave = (data: ProjectData) =>
+    saveProject(data).catch(err => console.error("自动保存失败", err));
+
+  // 立即保存当前项目，用于关闭项目和离开页面时写入防抖期间尚未保存的编辑
+  const flushAutosave = () => {
+    if (status === AppStatus.IDLE || status === AppStatus.ANALYZING) return Promise.resolve();
+    const data = buildProject();
+    return data ? autosave(data) : Promise.resolve();
+  };
+
+  // 分析完成后的所有编辑都自动写入 IndexedDB
+  useEffect(() => {
+    if (status === AppStatus.IDLE || status === AppStatus.ANALYZING) return;
+    const data = buildProject();
+    if (!data) return;
+    const timer = setTimeout(() => autosave(data), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [segments, selectedSegments, subtitleStyle, history, captions, composition, video, project, status]);
+
+  useEffect(() => {
+    const onBeforeUnload = () => {
+      flushAutosave();
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  });
+
+  const openVideo = (file: File, duration = 0) => {
     const url = URL.createObjectURL(file);
     setVideo({
       name: file.name,
       size: file.size,
-      duration: 0,
+      duration,
       url,
       file
     });
+  };
+
+  const restoreProject = (data: ProjectData, file: File) => {
+    openVideo(file, data.video.duration);
+    setProject({ id: data.id, createdAt: data.createdAt });
+    setSegments(data.segments);
+    setSelectedSegments(data.selectedSegments);
+    setSubtitleStyle(data.style);
+    setHistory(unpackHistory(data.history));
+    setCaptions(data.captions);
+    setComposition(data.composition);
+    setRelinkProject(null);
+    setStatus(AppStatus.READY);
+  };
+
+  const handleResumeProject = async (id: string) => {
+    try {
+      const data = await loadProject(id);
+      if (!data) throw new Error('项目不存在');
+      const blob = await loadVideoBlob(id);
+      if (!blob) {
+        setRelinkProject(data);
+        return;
+      }
+      const file = new File([blob], data.video.name, { type: data.video.type, lastModified: data.video.lastModified });
+      restoreProject(data, file);
+    } catch (err: any) {
+      setError(err.message || '打开项目失败');
+    }
+  };
+
+  const handleRelinkVideo = async (file: File) => {
+    if (!relinkProject) return;
+    if (!matchesFingerprint(file, relinkProject.video)
+      && !window.confirm(`所选视频与项目记录的「${relinkProject.video.name}」不一致，时间轴可能错位。仍要继续吗？`)) {
+      return;
+    }
+    await saveVideoBlob(relinkProject.id, file);
+    restoreProject(relinkProject, file);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (!window.confirm('确定删除该项目吗？此操作不可恢复。')) return;
+    await deleteProject(id);
+    if (relinkProject?.id === id) setRelinkProject(null);
+    refreshProjects();
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const data = await parseProjectFile(file);
+      // 已存在同 id 的项目时另存为新项目，避免覆盖本地进度
+      const imported = (await loadProject(data.id)) ? { ...data, id: createProjectId() } : data;
+      await saveProject(imported);
+      refreshProjects();
+      setRelinkProject(imported);
+    } catch (err: any) {
+      setError(err.message || '导入项目失败');
+    }
+  };
+
+  const handleExportProject = () => {
+    const data = buildProject();
+    if (!data) return;
+    downloadBlob(
+      new Blob([serializeProject(data)], { type: 'application/json' }),
+      `${baseName(data.name)}${PROJECT_FILE_EXTENSION}`
+    );
+  };
+
+  const handleCloseProject = () => {
+    // 列表在保存完成后再刷新，才能反映最后的修改时间
+    flushAutosave().then(refreshProjects);
+    if (video) URL.revokeObjectURL(video.url);
+    setVideo(null);
+    setProject(null);
+    setSegments([]);
+    setSelectedSegments([]);
+    setEditingId(null);
+    renderAbortRef.current?.abort();
+    if (finalVideoUrl) URL.revokeObjectURL(finalVideoUrl);
+    setFinalVideoUrl(null);
+    setAnalysisIssues([]);
+    setSequencePreview(false);
+    setHistory(EMPTY_HISTORY);
+    setCheckedIds([]);
+    setActiveSegmentId(null);
+    setCaptions(DEFAULT_CAPTION_SETTINGS);
+    setComposition(DEFAULT_COMPOSITION_SETTINGS);
+    setMusicFile(null);
+    setStatus(AppStatus.IDLE);
+  };
+
+  const openNewVideo = (file: File) => {
+    openVideo(file);
+    const id = createProjectId();
+    setProject({ id, createdAt: Date.now() });
+    saveVideoBlob(id, file);
+
+    if (importedSegments) {
+      setSegments(importedSegments);
+      setImportedSegments(null);
+      setStatus(AppStatus.READY);
+      return;
+    }
+
     setStatus(AppStatus.ANALYZING);
-    startAnalysis(file);
+    startAnalysis(file, id);
+  };
+
+  // 单个视频直接进入编辑，多个视频加入批量队列
+  const handleVideoFiles = (files: File[]) => {
+    if (files.length > 1) {
+      // 样式与成片设置在加入队列时定下，之后打开其他项目不会改变这些任务的输出
+      const render = { style: subtitleStyle, captions, composition, music: musicFile, exportSettings };
+      setBatchJobs(prev => [...prev, ...files.map(file => createBatchJob(file, batchSettings, render))]);
+    } else if (files.length === 1) {
+      openNewVideo(files[0]);
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    e.target.value = '';
+    handleVideoFiles(files);
+  };
+
+  const handleDropVideos = (e: React.DragEvent) => {
+    e.preventDefault();
+    handleVideoFiles(Array.from<File>(e.dataTransfer.files).filter(file => file.type.startsWith('video/')));
+  };
+
+  const handleRetryBatchJob = (id: string) => {
+    setBatchJobs(prev => prev.map(job => (job.id === id ? retryJob(job) : job)));
+  };
+
+  const handleRetryFailedJobs = () => {
+    setBatchJobs(prev => prev.map(job => (job.error ? retryJob(job) : job)));
+  };
+
+  const handleRemoveBatchJob = (id: string) => {
+    setBatchJobs(prev => prev.filter(job => job.id !== id || isJobRunning(job)));
+  };
+
+  const handleClearFinishedJobs = () => {
+    setBatchJobs(prev => prev.filter(job => job.status !== AppStatus.COMPLETED && !job.error));
+  };
+
+  const handleDownloadBatch = async () => {
+    setPackagingBatch(true);
+    try {
+      const files = batchOutputFiles(batchJobs, batchSettings.subtitleFormat);
+      const zip = await createZip(files);
+      downloadBlob(zip, `NovaClip_batch_${Date.now()}.zip`);
+    } catch (err: any) {
+      setError(err.message || '打包下载失败');
+    } finally {
+      setPackagingBatch(false);
+    }
   };
 
-  const startAnalysis = async (file: File) => {
+  // 对当前字幕重新做一次音频校准（如导入的字幕或恢复的项目），可撤销
+  const handleRefineWithAudio = async () => {
+    if (!video) return;
+    setRefining(true);
     try {
-      const result = await analyzeVideoWithGemini(file, (msg) => setProcessingMsg(msg));
-      setSegments(result);
+      const refine = await prepareAudioRefinement(video.file, analysisSettings.silence);
+      // 解码期间可能还有编辑，校准作用于应用时的最新片段
+      let issues: AnalysisIssue[] = [];
+      applyEdit('音频校准', s => {
+        const refined = refine(s.segments);
+        issues = refined.issues;
+        return { ...s, segments: refined.segments };
+      });
+      setAnalysisIssues(issues);
+    } catch (err: any) {
+      setError(err.message || '音频校准失败');
+    } finally {
+      setRefining(false);
+    }
+  };
+
+  const startAnalysis = async (file: File, projectId: string) => {
+    try {
+      setAnalysisProgress(null);
+      setAnalysisIssues([]);
+      const result = await analyzeVideo(file, analysisProvider, analysisSettings.silence, (msg, fraction) => {
+        setProcessingMsg(msg);
+        if (fraction !== undefined) setAnalysisProgress(fraction);
+      });
+      if (result.segments.length === 0) {
+        setError(`分析未得到可用片段${result.issues.length > 0 ? `：${result.issues[0].message}` : ''}`);
+      }
+
+      setAnalysisIssues(result.issues);
+      setSegments(result.segments);
       setStatus(AppStatus.READY);
     } catch (err: any) {
       setError(err.message || '分析失败');
+      // 分析失败的项目没有任何可恢复的内容，清理已缓存的视频
+      deleteProject(projectId).catch(() => undefined);
       setStatus(AppStatus.IDLE);
     }
   };
 
+  const applySnapshot = (snapshot: EditSnapshot) => {
+    editStateRef.current = snapshot;
+    setSegments(snapshot.segments);
+    setSelectedSegments(snapshot.selectedSegments);
+  };
+
+  /**
+   * 所有对字幕列表和剪辑队列的修改都经由此处，以便记录撤销历史。
+   * coalesceKey 相同的快速连续编辑只占一步。
+   */
+  const applyEdit = (label: string, update: (state: EditSnapshot) => EditSnapshot, coalesceKey?: string) => {
+    const before = editStateRef.current;
+    const after = update(before);
+    if (after.segments === before.segments && after.selectedSegments === before.selectedSegments) return;
+    applySnapshot(after);
+    setHistory(prev => recordEdit(prev, { label, coalesceKey, timestamp: Date.now(), before, after }));
+  };
+
+  const handleUndo = () => {
+    const result = undoEdit(history);
+    if (!result) return;
+    applySnapshot(result.snapshot);
+    setHistory(result.history);
+    setEditingId(null);
+  };
+
+  const handleRedo = () => {
+    const result = redoEdit(history);
+    if (!result) return;
+    applySnapshot(result.snapshot);
+    setHistory(result.history);
+    setEditingId(null);
+  };
+
+  // Ctrl/Cmd+Z 撤销，Ctrl/Cmd+Shift+Z 重做；输入框内保留浏览器自身的文本撤销
+  useEffect(() => {
+    if (status !== AppStatus.READY) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const handleAddSegment = (seg: SubtitleSegment) => {
-    setSelectedSegments(prev => [...prev, seg]);
+    applyEdit('添加片段', s => ({ ...s, selectedSegments: [...s.selectedSegments, seg] }));
   };
 
+  // 成片轨道首尾相接，删除片段后后续片段自动前移（波纹删除）
   const handleRemoveSegment = (index: number) => {
-    setSelectedSegments(prev => prev.filter((_, i) => i !== index));
-  };
-
-  // 辅助函数：绘制自动换行的文字
-  const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-    const words = text.split('');
-    let line = '';
-    const lines = [];
-
-    for (let n = 0; n < words.length; n++) {
-      let testLine = line + words[n];
-      let metrics = ctx.measureText(testLine);
-      let testWidth = metrics.width;
-      if (testWidth > maxWidth && n > 0) {
-        lines.push(line);
-        line = words[n];
+    applyEdit('移除片段', s => ({ ...s, selectedSegments: s.selectedSegments.filter((_, i) => i !== index) }));
+  };
+
+  const handleClearQueue = () => {
+    applyEdit('清空队列', s => (s.selectedSegments.length > 0 ? { ...s, selectedSegments: [] } : s));
+  };
+
+  const handleRoughCut = (clips: SubtitleSegment[]) => {
+    applyEdit('自动粗剪', s => ({ ...s, selectedSegments: clips }));
+  };
+
+  const handleRestoreSegment = (seg: SubtitleSegment) => {
+    applyEdit('恢复片段', s => ({ ...s, selectedSegments: restoreIntoQueue(s.selectedSegments, seg) }));
+  };
+
+  const handleChangeRoughCutOptions = (options: RoughCutOptions) => {
+    setRoughCutOptions(options);
+    saveRoughCutOptions(options);
+  };
+
+  const updateClipCrop = (label: string, index: number, update: (clip: SubtitleSegment) => SubtitleSegment, coalesceKey?: string) => {
+    applyEdit(label, s => ({
+      ...s,
+      selectedSegments: replaceAt(s.selectedSegments, index, update)
+    }), coalesceKey);
+  };
+
+  const handleMoveCrop = (index: number, center: { x: number; y: number }, clipTime: number) => {
+    updateClipCrop('调整裁剪', index, clip => ({
+      ...clip,
+      crop: cropKeyframeMode
+        ? upsertKeyframe(clip.crop, { time: Math.max(0, clipTime), ...center })
+        : [{ time: 0, ...center }]
+    }), `crop:${index}`);
+  };
+
+  const handleRemoveCropKeyframe = (index: number, time: number) => {
+    updateClipCrop('删除关键帧', index, clip => ({ ...clip, crop: (clip.crop ?? []).filter(k => k.time !== time) }));
+  };
+
+  const handleResetCrop = (index: number) => {
+    updateClipCrop('重置裁剪', index, clip => ({ ...clip, crop: undefined }));
+  };
+
+  const handleChangeTransition = (index: number, transition: ClipTransition | undefined) => {
+    applyEdit('设置转场', s => ({
+      ...s,
+      selectedSegments: replaceAt(s.selectedSegments, index, c => ({ ...c, transition }))
+    }), `transition:${index}`);
+  };
+
+  const handleMoveSegment = (from: number, to: number) => {
+    applyEdit('调整顺序', s => ({ ...s, selectedSegments: moveItem(s.selectedSegments, from, to) }));
+  };
+
+  const handleTrimSegment = (index: number, clip: SubtitleSegment) => {
+    applyEdit(
+      '修剪片段',
+      s => ({ ...s, selectedSegments: replaceAt(s.selectedSegments, index, () => clip) }),
+      `trim:${index}`
+    );
+  };
+
+  const handleSeek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  // 进入成片预览时暂停主播放器，避免两路声音叠加
+  const handleToggleSequencePreview = () => {
+    if (!sequencePreview) videoRef.current?.pause();
+    setSequencePreview(v => !v);
+  };
+
+  useEffect(() => {
+    if (selectedSegments.length === 0) setSequencePreview(false);
+  }, [selectedSegments]);
+
+  const handleVideoLoaded = () => {
+    const duration = videoRef.current?.duration;
+    if (!duration || !Number.isFinite(duration)) return;
+    setVideo(prev => prev ? { ...prev, duration } : prev);
+  };
+
+  // 编辑结果同时写回字幕列表和剪辑队列，合成时使用的就是编辑后的片段
+  const applySegmentEdits = (label: string, replacements: Map<string, SubtitleSegment[]>, coalesceKey?: string) => {
+    applyEdit(label, s => ({
+      segments: sortByStart(replaceSegments(s.segments, replacements)),
+      selectedSegments: replaceSegments(s.selectedSegments, replacements)
+    }), coalesceKey);
+    setEditingId(null);
+  };
+
+  const handleSaveSegment = (seg: SubtitleSegment) => {
+    applySegmentEdits('编辑字幕', new Map([[seg.id, [seg]]]), `edit:${seg.id}`);
+  };
+
+  const handleSplitSegment = (original: SubtitleSegment, parts: [SubtitleSegment, SubtitleSegment]) => {
+    applySegmentEdits('拆分片段', new Map([[original.id, parts]]));
+  };
+
+  // 合并对象是列表中可见（未被筛选隐藏）的片段里、按源视频时间紧随其后的一条，
+  // 不会吞掉隐藏的冗余片段，也不受列表按置信度或时长排序的影响
+  const getNextSegment = (id: string) => {
+    const visible = sortByStart(filteredSegments);
+    const index = visible.findIndex(s => s.id === id);
+    return index >= 0 ? visible[index + 1] : undefined;
+  };
+
+  const handleMergeNext = (seg: SubtitleSegment) => {
+    const next = getNextSegment(seg.id);
+    if (!next) return;
+    const merged = mergeSegments(seg, next);
+    applySegmentEdits('合并片段', new Map([[seg.id, [merged]], [next.id, [merged]]]));
+  };
+
+  const handleSaveStylePreset = (name: string) => {
+    const next = [...customPresets.filter(p => p.name !== name), { name, style: subtitleStyle }];
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const handleSaveSecondaryStylePreset = (name: string) => {
+    const next = [...customPresets.filter(p => p.name !== name), { name, style: captions.secondaryStyle }];
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const handleDeleteStylePreset = (name: string) => {
+    const next = customPresets.filter(p => p.name !== name);
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    // 导出队列时时间戳需映射到成片时间轴
+    const segs = exportScope === 'queue'
+      ? rebaseToComposition(selectedSegments, composition, exportSettings.frameRate)
+      : segments;
+    if (segs.length === 0) {
+      setError(exportScope === 'queue' ? "剪辑队列为空，无法导出字幕" : "没有可导出的字幕");
+      return;
+    }
+    // 原文与每种译文各导出一个文件，译文文件名带语言代码
+    const base = `${video ? baseName(video.name) : 'NovaClip'}${exportScope === 'queue' ? '_edit' : ''}`;
+    for (const { name, content } of localizedSubtitleFiles(segs, languages, base, format)) {
+      downloadBlob(new Blob([content], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` }), name);
+    }
+  };
+
+  const handleTranslate = async (language: string) => {
+    const translate = analysisProvider.translate;
+    if (!translate) return;
+    const units = translationUnits(segments, selectedSegments);
+    setTranslating({ language, message: '正在准备翻译...' });
+    try {
+      const translated = await translate(units, language, (message) => setTranslating({ language, message }));
+      applyEdit('翻译字幕', s => ({
+        segments: applyTranslations(s.segments, language, translated),
+        selectedSegments: applyTranslations(s.selectedSegments, language, translated)
+      }));
+      const missing = countUntranslated(units, translated);
+      if (missing > 0) setError(`${missing} 条字幕未能翻译，可在编辑时手动补充`);
+    } catch (err: any) {
+      setError(err.message || '翻译失败');
+    } finally {
+      setTranslating(null);
+    }
+  };
+
+  const handleRemoveLanguage = (language: string) => {
+    applyEdit('删除译文', s => ({
+      segments: removeLanguage(s.segments, language),
+      selectedSegments: removeLanguage(s.selectedSegments, language)
+    }));
+    setCaptions(prev => withoutCaptionLanguage(prev, language));
+  };
+
+  const handleImportSubtitles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await parseSubtitleFile(file);
+      if (status === AppStatus.IDLE) {
+        setImportedSegments(result);
       } else {
-        line = testLine;
+        applyEdit('导入字幕', () => ({ segments: result, selectedSegments: [] }));
+        setEditingId(null);
       }
-    }
-    lines.push(line);
-
-    // 从底部向上绘制
-    const totalHeight = lines.length * lineHeight;
-    let currentY = y - totalHeight + lineHeight;
-    
-    for (const l of lines) {
-      ctx.strokeText(l, x, currentY);
-      ctx.fillText(l, x, currentY);
-      currentY += lineHeight;
+    } catch (err: any) {
+      setError(err.message || '字幕导入失败');
     }
   };
 
-  const composeVideoSegments = async (segs: SubtitleSegment[]): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const sourceVideo = document.createElement('video');
-      sourceVideo.src = video!.url;
-      sourceVideo.crossOrigin = "anonymous";
-      sourceVideo.muted = false;
-      sourceVideo.playsInline = true;
-
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d', { alpha: false });
-      if (!ctx) return reject("无法创建 Canvas 上下文");
-
-      sourceVideo.onloadedmetadata = async () => {
-        canvas.width = sourceVideo.videoWidth;
-        canvas.height = sourceVideo.videoHeight;
-
-        // 设置音频上下文以捕获原声
-        const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const source = audioCtx.createMediaElementSource(sourceVideo);
-        const dest = audioCtx.createMediaStreamDestination();
-        source.connect(dest);
-        source.connect(audioCtx.destination); // 同时输出到扬声器，以便合成时同步
-
-        const videoStream = canvas.captureStream(30);
-        const combinedStream = new MediaStream([
-          ...videoStream.getVideoTracks(),
-          ...dest.stream.getAudioTracks()
-        ]);
-
-        const recorder = new MediaRecorder(combinedStream, { 
-          mimeType: 'video/webm;codecs=vp8,opus',
-          videoBitsPerSecond: 5000000 
-        });
-        const chunks: Blob[] = [];
-
-        recorder.ondataavailable = (e) => {
-          if (e.data.size > 0) chunks.push(e.data);
-        };
-        
-        recorder.onstop = () => {
-          audioCtx.close();
-          resolve(new Blob(chunks, { type: 'video/webm' }));
-        };
-
-        recorder.start();
-
-        for (const seg of segs) {
-          setProcessingMsg(`正在录制片段: "${seg.text.substring(0, 15)}..."`);
-          
-          sourceVideo.currentTime = seg.startTime;
-          // 等待跳转完成
-          await new Promise(r => {
-            const onSeeked = () => {
-              sourceVideo.removeEventListener('seeked', onSeeked);
-              r(null);
-            };
-            sourceVideo.addEventListener('seeked', onSeeked);
-          });
-
-          sourceVideo.play();
-          
-          const durationMs = (seg.endTime - seg.startTime) * 1000;
-          const startRenderTime = Date.now();
-
-          // 循环渲染每一帧
-          await new Promise(r => {
-            const renderFrame = () => {
-              const elapsed = Date.now() - startRenderTime;
-              
-              if (elapsed >= durationMs || sourceVideo.paused) {
-                sourceVideo.pause();
-                r(null);
-                return;
-              }
-
-              ctx.drawImage(sourceVideo, 0, 0, canvas.width, canvas.height);
-              
-              // 绘制带换行的字幕
-              const fontSize = Math.floor(canvas.height / 18);
-              ctx.font = `bold ${fontSize}px "Microsoft YaHei", sans-serif`;
-              ctx.fillStyle = 'white';
-              ctx.strokeStyle = 'rgba(0,0,0,0.8)';
-              ctx.lineWidth = Math.max(2, fontSize / 8);
-              ctx.textAlign = 'center';
-              ctx.textBaseline = 'bottom';
-
-              const maxWidth = canvas.width * 0.85;
-              const lineHeight = fontSize * 1.2;
-              const bottomY = canvas.height * 0.92;
-
-              wrapText(ctx, seg.text, canvas.width / 2, bottomY, maxWidth, lineHeight);
-
-              requestAnimationFrame(renderFrame);
-            };
-            requestAnimationFrame(renderFrame);
-          });
-        }
-
-        // 停止录制前稍微等一下，确保最后一帧被捕获
-        setTimeout(() => recorder.stop(), 500);
-      };
-      
-      sourceVideo.onerror = () => reject("视频加载失败");
+  const composeVideoSegments = (segs: SubtitleSegment[], signal: AbortSignal): Promise<Blob> =>
+    renderSegments(video!.file, video!.url, segs, {
+      style: subtitleStyle,
+      captions,
+      composition,
+      music: musicFile,
+      settings: exportSettings,
+      signal,
+      onMessage: setProcessingMsg,
+      onProgress: setRenderProgress
     });
-  };
 
-  const handleGenerateFinalVideo = async () => {
+  const sourceSize = () => ({
+    width: videoRef.current?.videoWidth || 1920,
+    height: videoRef.current?.videoHeight || 1080
+  });
+
+  const handleOpenExportDialog = () => {
     if (selectedSegments.length === 0) {
       setError("请先在右侧列表中点击选择字幕片段");
       return;
     }
-    
+    setShowExportDialog(true);
+  };
+
+  // 编码能力与输出尺寸有关，对话框打开期间切换画幅或缩放时按新尺寸重新检测
+  const probeSize = outputSize(exportSettings, sourceSize().width, sourceSize().height);
+  useEffect(() => {
+    if (!showExportDialog) return;
+    let cancelled = false;
+    setExportCapabilities(null);
+    probeExportCapabilities(probeSize.width, probeSize.height).then(capabilities => {
+      if (cancelled) return;
+      setExportCapabilities(capabilities);
+
+      // 当前组合在该尺寸下不可用时，自动换成第一个可用组合
+      const usable = (c: ExportContainer) => capabilities.videoCodecs[c].length > 0 && capabilities.audio[c];
+      setExportSettings(prev => {
+        if (usable(prev.container) && capabilities.videoCodecs[prev.container].includes(prev.videoCodec)) return prev;
+        const container = usable(prev.container) ? prev.container : (['mp4', 'webm'] as ExportContainer[]).find(usable);
+        return container ? { ...prev, container, videoCodec: capabilities.videoCodecs[container][0] } : prev;
+      });
+    });
+    return () => { cancelled = true; };
+  }, [showExportDialog, probeSize.width, probeSize.height]);
+
+  const handleGenerateFinalVideo = async () => {
+    setShowExportDialog(false);
     setStatus(AppStatus.GENERATING);
     setProcessingMsg("准备合成视频与音频...");
+    setRenderProgress(null);
+    setCancellingRender(false);
+    // 上一次的成片不再需要，重新渲染前释放其对象 URL
+    if (finalVideoUrl) URL.revokeObjectURL(finalVideoUrl);
+    setFinalVideoUrl(null);
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
 
     try {
-      const blob = await composeVideoSegments(selectedSegments);
+      const blob = await composeVideoSegments(selectedSegments, controller.signal);
+      if (controller.signal.aborted) throw new RenderCancelledError();
       const url = URL.createObjectURL(blob);
       setFinalVideoUrl(url);
+      setFinalVideoExt(extensionForMimeType(blob.type));
       setStatus(AppStatus.COMPLETED);
     } catch (err: any) {
-      console.error(err);
-      setError("合成视频失败: " + (err.message || "未知错误"));
+      if (!(err instanceof RenderCancelledError)) {
+        console.error(err);
+        setError("合成视频失败: " + (err.message || "未知错误"));
+      }
       setStatus(AppStatus.READY);
+    } finally {
+      renderAbortRef.current = null;
+      setRenderProgress(null);
+      setCancellingRender(false);
     }
   };
 
-  const filteredSegments = segments.filter(s => !s.isRedundant);
+  const handleCancelRender = () => {
+    if (!renderAbortRef.current) return;
+    setCancellingRender(true);
+    renderAbortRef.current.abort();
+  };
+
+  const languages = translatedLanguages(segments);
+  const playerSize = { width: videoRef.current?.videoWidth || 1920, height: videoRef.current?.videoHeight || 1080 };
+  const cropGuide = isReframed(exportSettings.aspect, playerSize.width, playerSize.height) && exportSettings.fit === 'crop';
+  const filteredSegments = filterSegments(segments, segmentFilter, segmentSort);
+
+  const handleCheckSegment = (seg: SubtitleSegment, range: boolean) => {
+    setActiveSegmentId(seg.id);
+    if (range && selectionAnchor) {
+      const ids = rangeSelection(filteredSegments, selectionAnchor, seg.id);
+      setCheckedIds(prev => Array.from(new Set([...prev, ...ids])));
+      return;
+    }
+    setSelectionAnchor(seg.id);
+    setCheckedIds(prev => (prev.includes(seg.id) ? prev.filter(id => id !== seg.id) : [...prev, seg.id]));
+  };
+
+  // 批量加入时按源视频时间排序，与粗剪的顺序一致
+  const addToQueue = (label: string, segs: SubtitleSegment[]) => {
+    if (segs.length === 0) return;
+    applyEdit(label, s => ({ ...s, selectedSegments: [...s.selectedSegments, ...sortByStart(segs)] }));
+  };
+
+  const handleAddChecked = () => {
+    addToQueue('批量添加', segments.filter(s => checkedIds.includes(s.id)));
+    setCheckedIds([]);
+  };
+
+  const handleAddAllMatches = () => {
+    addToQueue('添加全部结果', filteredSegments);
+  };
+
+  // ↑↓ 在结果中移动并跳转播放器，Shift 同时扩展选择；Enter 加入队列，空格切换选择
+  const handleListKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || editingId) return;
+    const index = filteredSegments.findIndex(s => s.id === activeSegmentId);
+    const active = filteredSegments[index];
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const next = filteredSegments[Math.max(0, Math.min(filteredSegments.length - 1, index + (e.key === 'ArrowDown' ? 1 : -1)))];
+      if (!next) return;
+      setActiveSegmentId(next.id);
+      handleSeek(next.startTime);
+      if (e.shiftKey) {
+        const anchor = selectionAnchor ?? active?.id ?? next.id;
+        setSelectionAnchor(anchor);
+        setCheckedIds(rangeSelection(filteredSegments, anchor, next.id));
+      }
+    } else if (e.key === 'Enter' && active) {
+      e.preventDefault();
+      handleAddSegment(active);
+    } else if (e.key === ' ' && active) {
+      e.preventDefault();
+      handleCheckSegment(active, false);
+    } else if (e.key === 'Escape') {
+      setCheckedIds([]);
+    }
+  };
   const redundantCount = segments.filter(s => s.isRedundant).length;
 
   return (
@@ -240,8 +947,20 @@ const App: React.FC = () => {
             NovaClip AI 智能剪辑
           </h1>
         </div>
-        <div className="text-xs font-medium text-slate-500 uppercase tracking-widest bg-slate-900 px-3 py-1 rounded-full border border-slate-800">
-          基于 Gemini 3.0
+        <div className="flex items-center gap-3">
+          {video && status !== AppStatus.ANALYZING && (
+            <>
+              <button onClick={handleExportProject} className="text-xs text-slate-400 hover:text-indigo-400 transition-colors flex items-center gap-1">
+                <Save className="w-4 h-4" /> 导出项目
+              </button>
+              <button onClick={handleCloseProject} className="text-xs text-slate-400 hover:text-indigo-400 transition-colors flex items-center gap-1">
+                <FolderOpen className="w-4 h-4" /> 项目列表
+              </button>
+            </>
+          )}
+          <div className="text-xs font-medium text-slate-500 uppercase tracking-widest bg-slate-900 px-3 py-1 rounded-full border border-slate-800">
+            {analysisProvider.label}
+          </div>
         </div>
       </header>
 
@@ -251,25 +970,99 @@ const App: React.FC = () => {
           {status === AppStatus.IDLE && (
             <div 
               onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDropVideos}
               className="group cursor-pointer border-2 border-dashed border-slate-800 hover:border-indigo-500/50 bg-slate-900/50 rounded-2xl aspect-video flex flex-col items-center justify-center transition-all duration-300"
             >
               <div className="bg-slate-800 p-4 rounded-full mb-4 group-hover:scale-110 transition-transform">
                 <Upload className="text-slate-400 group-hover:text-indigo-400 w-8 h-8" />
               </div>
               <p className="text-slate-300 font-medium text-lg">上传需要剪辑的视频</p>
-              <p className="text-slate-500 text-sm mt-2">支持常见视频格式</p>
-              <input ref={fileInputRef} type="file" className="hidden" accept="video/*" onChange={handleFileUpload} />
+              <p className="text-slate-500 text-sm mt-2">支持常见视频格式，可拖入文件；一次选择多个视频将加入批量队列</p>
+              <input ref={fileInputRef} type="file" className="hidden" accept="video/*" multiple onChange={handleFileUpload} />
             </div>
           )}
 
+          {status === AppStatus.IDLE && (
+            <div className="flex justify-center">
+              <button onClick={() => subtitleInputRef.current?.click()} className="text-xs text-slate-500 hover:text-indigo-400 transition-colors flex items-center gap-1">
+                <FileUp className="w-3 h-3" />
+                {importedSegments
+                  ? `已导入 ${importedSegments.length} 条字幕，上传视频后将跳过 AI 分析`
+                  : '已有字幕文件？先导入 SRT / VTT / ASS 以跳过 AI 分析'}
+              </button>
+            </div>
+          )}
+
+          {status === AppStatus.IDLE && batchJobs.length > 0 && (
+            <BatchPanel
+              jobs={batchJobs}
+              settings={batchSettings}
+              packaging={packagingBatch}
+              onChangeSettings={setBatchSettings}
+              onRetry={handleRetryBatchJob}
+              onRetryFailed={handleRetryFailedJobs}
+              onRemove={handleRemoveBatchJob}
+              onClearFinished={handleClearFinishedJobs}
+              onOpenProject={handleResumeProject}
+              onDownloadAll={handleDownloadBatch}
+            />
+          )}
+
+          {status === AppStatus.IDLE && (
+            <AnalysisSettingsPanel settings={analysisSettings} onChange={setAnalysisSettings} />
+          )}
+
+          {status === AppStatus.IDLE && (
+            <ProjectList
+              projects={projects}
+              relinkProject={relinkProject}
+              onResume={handleResumeProject}
+              onDelete={handleDeleteProject}
+              onImport={handleImportProject}
+              onRelink={handleRelinkVideo}
+              onCancelRelink={() => setRelinkProject(null)}
+            />
+          )}
+
           {status !== AppStatus.IDLE && video && (
             <div className="relative rounded-2xl overflow-hidden bg-black aspect-video shadow-2xl border border-slate-800">
-              <video ref={videoRef} src={video.url} className="w-full h-full object-contain" controls />
+              <video ref={videoRef} src={video.url} className="w-full h-full object-contain" controls onLoadedMetadata={handleVideoLoaded} />
+              {previewEnabled && status !== AppStatus.ANALYZING && !cropGuide && (
+                <SubtitleOverlay videoRef={videoRef} segments={segments} style={subtitleStyle} captions={captions} />
+              )}
+              {cropGuide && status !== AppStatus.ANALYZING && (
+                <ReframeOverlay
+                  videoRef={videoRef}
+                  clips={selectedSegments}
+                  aspect={exportSettings.aspect}
+                  style={subtitleStyle}
+                  captions={captions}
+                  editable={cropEditing}
+                  onMoveCrop={handleMoveCrop}
+                />
+              )}
+              {sequencePreview && status !== AppStatus.ANALYZING && selectedSegments.length > 0 && (
+                <SequencePreview
+                  videoUrl={video.url}
+                  clips={selectedSegments}
+                  composition={composition}
+                  frameRate={exportSettings.frameRate}
+                  style={subtitleStyle}
+                  captions={captions}
+                  onExit={() => setSequencePreview(false)}
+                />
+              )}
               {status === AppStatus.ANALYZING && (
                 <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm flex flex-col items-center justify-center text-center p-6">
                   <Loader2 className="w-12 h-12 text-indigo-500 animate-spin mb-4" />
                   <p className="text-indigo-200 font-bold text-xl mb-2">正在进行 AI 语义分析...</p>
                   <p className="text-indigo-300/60 text-sm max-w-xs">{processingMsg}</p>
+                  {analysisProgress !== null && (
+                    <div className="w-64 h-1.5 bg-slate-800 rounded-full mt-4 overflow-hidden">
+                      <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${Math.round(analysisProgress * 100)}%` }} />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -279,23 +1072,58 @@ const App: React.FC = () => {
             <div className="flex justify-between items-center mb-4">
               <div className="flex items-center gap-2">
                 <FontIcon className="text-indigo-400 w-5 h-5" />
-                <h2 className="text-lg font-semibold text-slate-200">剪辑队列与预览字幕</h2>
+                <h2 className="text-lg font-semibold text-slate-200">剪辑时间线</h2>
               </div>
-              <button onClick={() => setSelectedSegments([])} className="text-xs text-slate-500 hover:text-red-400 transition-colors flex items-center gap-1">
-                <RefreshCw className="w-3 h-3" /> 清空队列
-              </button>
-            </div>
-            
-            <div className="space-y-2 max-h-48 overflow-y-auto mb-4 custom-scrollbar pr-2">
-              {selectedSegments.length > 0 ? selectedSegments.map((seg, idx) => (
-                <div key={`${seg.id}-${idx}`} className="flex items-center gap-3 bg-slate-800/50 p-2 rounded-lg border border-slate-700/50 group">
-                  <span className="text-[10px] text-slate-500 font-mono w-16 text-center">{seg.startTime.toFixed(1)}s</span>
-                  <p className="flex-grow text-sm text-slate-300 truncate">{seg.text}</p>
-                  <button onClick={() => handleRemoveSegment(idx)} className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <Trash2 className="w-4 h-4" />
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={handleToggleSequencePreview}
+                  disabled={selectedSegments.length === 0 || status === AppStatus.ANALYZING}
+                  className={`text-xs transition-colors flex items-center gap-1 disabled:opacity-40 ${sequencePreview ? 'text-indigo-300' : 'text-slate-500 hover:text-indigo-300'}`}
+                >
+                  <MonitorPlay className="w-3 h-3" /> {sequencePreview ? '退出预览' : '预览成片'}
+                </button>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={handleUndo}
+                    disabled={!canUndo(history)}
+                    title={canUndo(history) ? `撤销：${history.past[history.past.length - 1].label} (Ctrl+Z)` : '没有可撤销的操作'}
+                    className="p-1 text-slate-500 hover:text-indigo-300 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors"
+                  >
+                    <Undo2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={!canRedo(history)}
+                    title={canRedo(history) ? `重做：${history.future[0].label} (Ctrl+Shift+Z)` : '没有可重做的操作'}
+                    className="p-1 text-slate-500 hover:text-indigo-300 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors"
+                  >
+                    <Redo2 className="w-3.5 h-3.5" />
                   </button>
                 </div>
-              )) : (
+                <button onClick={handleClearQueue} className="text-xs text-slate-500 hover:text-red-400 transition-colors flex items-center gap-1">
+                  <RefreshCw className="w-3 h-3" /> 清空队列
+                </button>
+              </div>
+            </div>
+            
+            <div className="mb-4">
+              {video && status !== AppStatus.IDLE ? (
+                <Timeline
+                  duration={video.duration}
+                  segments={segments}
+                  clips={selectedSegments}
+                  composition={composition}
+                  frameRate={exportSettings.frameRate}
+                  videoRef={videoRef}
+                  waveform={waveform}
+                  thumbnails={thumbnails}
+                  onSeek={handleSeek}
+                  onAddSegment={handleAddSegment}
+                  onRemoveClip={handleRemoveSegment}
+                  onMoveClip={handleMoveSegment}
+                  onTrimClip={handleTrimSegment}
+                />
+              ) : (
                 <div className="h-20 flex items-center justify-center border border-dashed border-slate-800 rounded-lg text-slate-600 text-sm italic">
                   队列为空，请在右侧选择有效片段
                 </div>
@@ -306,19 +1134,114 @@ const App: React.FC = () => {
               <p className="text-xs text-slate-500">
                 {selectedSegments.length > 0 ? `已选 ${selectedSegments.length} 个片段，将按顺序合并。` : "未选择"}
               </p>
-              <button
-                disabled={selectedSegments.length === 0 || status === AppStatus.GENERATING}
-                onClick={handleGenerateFinalVideo}
-                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-8 py-3 rounded-xl font-bold transition-all shadow-lg shadow-indigo-600/20"
-              >
-                {status === AppStatus.GENERATING ? (
-                  <><Loader2 className="w-5 h-5 animate-spin" /> {processingMsg.length > 10 ? '录制中...' : '准备中...'}</>
-                ) : (
-                  <><Sparkles className="w-5 h-5" /> 生成带字幕视频</>
-                )}
-              </button>
+              <div className="flex items-center gap-3">
+                <button
+                  disabled={selectedSegments.length === 0 || status === AppStatus.GENERATING}
+                  onClick={handleOpenExportDialog}
+                  className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-8 py-3 rounded-xl font-bold transition-all shadow-lg shadow-indigo-600/20"
+                >
+                  {status === AppStatus.GENERATING ? (
+                    <><Loader2 className="w-5 h-5 animate-spin" /> {renderProgress ? `渲染中 ${renderProgress.percent}%` : '准备中...'}</>
+                  ) : (
+                    <><Sparkles className="w-5 h-5" /> 生成带字幕视频</>
+                  )}
+                </button>
+              </div>
             </div>
+
+            {status === AppStatus.GENERATING && (
+              <div className="mt-4">
+                <RenderProgressPanel
+                  progress={renderProgress}
+                  message={processingMsg}
+                  cancelling={cancellingRender}
+                  onCancel={handleCancelRender}
+                />
+              </div>
+            )}
           </div>
+
+          {status !== AppStatus.IDLE && status !== AppStatus.ANALYZING && video && segments.length > 0 && (
+            <RoughCutPanel
+              segments={segments}
+              clips={selectedSegments}
+              duration={video.duration}
+              options={roughCutOptions}
+              onChangeOptions={handleChangeRoughCutOptions}
+              onApply={handleRoughCut}
+              onRestore={handleRestoreSegment}
+              onSeek={handleSeek}
+            />
+          )}
+
+          {status !== AppStatus.IDLE && (
+            <SubtitleStylePanel
+              style={subtitleStyle}
+              presets={[...BUILT_IN_STYLE_PRESETS, ...customPresets]}
+              previewEnabled={previewEnabled}
+              onChange={setSubtitleStyle}
+              onSavePreset={handleSaveStylePreset}
+              onDeletePreset={handleDeleteStylePreset}
+              onTogglePreview={() => setPreviewEnabled(v => !v)}
+            />
+          )}
+
+          {status !== AppStatus.IDLE && status !== AppStatus.ANALYZING && video && (
+            <CompositionPanel
+              settings={composition}
+              clips={selectedSegments}
+              musicName={musicFile?.name ?? null}
+              onChange={setComposition}
+              onChangeTransition={handleChangeTransition}
+              onChangeMusic={setMusicFile}
+            />
+          )}
+
+          {status !== AppStatus.IDLE && status !== AppStatus.ANALYZING && video && (
+            <ReframePanel
+              aspect={exportSettings.aspect}
+              fit={exportSettings.fit}
+              sourceWidth={playerSize.width}
+              sourceHeight={playerSize.height}
+              clipIndex={currentClipIndex}
+              clip={selectedSegments[currentClipIndex] ?? null}
+              editing={cropEditing}
+              keyframeMode={cropKeyframeMode}
+              onChangeAspect={(aspect) => setExportSettings(prev => ({ ...prev, aspect }))}
+              onChangeFit={(fit) => setExportSettings(prev => ({ ...prev, fit }))}
+              onToggleEditing={() => setCropEditing(v => !v)}
+              onToggleKeyframeMode={() => setCropKeyframeMode(v => !v)}
+              onRemoveKeyframe={handleRemoveCropKeyframe}
+              onResetCrop={handleResetCrop}
+              onSeekClipTime={(time) => {
+                const clip = selectedSegments[currentClipIndex];
+                if (clip) handleSeek(clip.startTime + time);
+              }}
+            />
+          )}
+
+          {status !== AppStatus.IDLE && status !== AppStatus.ANALYZING && segments.length > 0 && (
+            <TranslationPanel
+              languages={languages}
+              captions={captions}
+              canTranslate={!!analysisProvider.translate}
+              translating={translating}
+              onTranslate={handleTranslate}
+              onRemoveLanguage={handleRemoveLanguage}
+              onChangeCaptions={setCaptions}
+            />
+          )}
+
+          {captions.mode === 'bilingual' && status !== AppStatus.IDLE && (
+            <SubtitleStylePanel
+              title="第二行字幕样式"
+              style={captions.secondaryStyle}
+              presets={[...BUILT_IN_STYLE_PRESETS, ...customPresets]}
+              onChange={(secondaryStyle) => setCaptions(prev => ({ ...prev, secondaryStyle }))}
+              onSavePreset={handleSaveSecondaryStylePreset}
+              onDeletePreset={handleDeleteStylePreset}
+            />
+          )}
         </div>
 
         <div className="lg:col-span-5 flex flex-col h-[700px]">
@@ -326,37 +1249,108 @@ const App: React.FC = () => {
             <div className="p-5 border-b border-slate-800 flex justify-between items-center bg-slate-900/50 rounded-t-2xl">
               <div>
                 <h2 className="font-bold text-slate-200 text-lg">AI 语义识别结果</h2>
-                <p className="text-xs text-slate-500">找到 {filteredSegments.length} 个精华片段</p>
+                <p className="text-xs text-slate-500">显示 {filteredSegments.length} / {segments.length} 个片段</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {status === AppStatus.READY && segments.length > 0 && (
+                  <button
+                    onClick={handleRefineWithAudio}
+                    disabled={refining}
+                    title="检测音轨中的静音，将片段边界吸附到语音起止点"
+                    className="text-[10px] px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-indigo-300 hover:border-indigo-500/40 disabled:opacity-50 font-bold flex items-center gap-1 transition-colors"
+                  >
+                    {refining ? <Loader2 className="w-3 h-3 animate-spin" /> : <AudioLines className="w-3 h-3" />} 音频校准
+                  </button>
+                )}
+                {redundantCount > 0 && (
+                  <span className="text-[10px] px-2 py-1 bg-amber-500/10 text-amber-500 rounded border border-amber-500/20 font-bold">
+                    剔除 {redundantCount} 个冗余
+                  </span>
+                )}
               </div>
-              {redundantCount > 0 && (
-                <span className="text-[10px] px-2 py-1 bg-amber-500/10 text-amber-500 rounded border border-amber-500/20 font-bold">
-                  剔除 {redundantCount} 个冗余
-                </span>
-              )}
             </div>
+
+            {status !== AppStatus.IDLE && status !== AppStatus.ANALYZING && (
+              <div className="px-5 py-3 border-b border-slate-800 flex items-center gap-2 text-xs">
+                <FileText className="w-4 h-4 text-slate-500" />
+                <select
+                  value={exportScope}
+                  onChange={(e) => setExportScope(e.target.value as 'all' | 'queue')}
+                  className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-300"
+                >
+                  <option value="all">全部字幕</option>
+                  <option value="queue">剪辑队列</option>
+                </select>
+                {SUBTITLE_FORMATS.map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExportSubtitles(format)}
+                    className="px-2 py-1 rounded-md bg-slate-800 hover:bg-indigo-600 text-slate-300 hover:text-white font-mono uppercase transition-colors"
+                  >
+                    {format}
+                  </button>
+                ))}
+                <button onClick={() => subtitleInputRef.current?.click()} className="ml-auto flex items-center gap-1 text-slate-500 hover:text-indigo-400 transition-colors">
+                  <FileUp className="w-3 h-3" /> 导入字幕
+                </button>
+              </div>
+            )}
+            <input ref={subtitleInputRef} type="file" className="hidden" accept=".srt,.vtt,.ass,.ssa" onChange={handleImportSubtitles} />
+            {analysisIssues.length > 0 && status !== AppStatus.ANALYZING && (
+              <AnalysisIssuesPanel issues={analysisIssues} onDismiss={() => setAnalysisIssues([])} />
+            )}
             
-            <div className="flex-grow overflow-y-auto p-4 space-y-3 custom-scrollbar">
+            {status !== AppStatus.ANALYZING && segments.length > 0 && (
+              <SegmentFilterBar
+                filter={segmentFilter}
+                sort={segmentSort}
+                resultCount={filteredSegments.length}
+                selectedCount={checkedIds.length}
+                onChange={setSegmentFilter}
+                onSortChange={setSegmentSort}
+                onAddSelected={handleAddChecked}
+                onAddAll={handleAddAllMatches}
+                onClearSelection={() => setCheckedIds([])}
+              />
+            )}
+
+            <div tabIndex={0} onKeyDown={handleListKeyDown} className="flex-grow overflow-y-auto p-4 space-y-3 custom-scrollbar focus:outline-none">
               {status === AppStatus.ANALYZING ? (
                 <div className="flex flex-col items-center justify-center h-full text-slate-500 space-y-4">
                   <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
                   <p className="text-sm">正在转录并标记有用片段...</p>
                 </div>
               ) : filteredSegments.length > 0 ? (
-                filteredSegments.map((seg) => (
-                  <div 
+                filteredSegments.map((seg) => editingId === seg.id ? (
+                  <SegmentEditor
                     key={seg.id}
-                    className="group bg-slate-800/30 hover:bg-slate-800/60 p-4 rounded-xl border border-slate-700/50 transition-all cursor-pointer relative hover:border-indigo-500/30"
-                    onClick={() => handleAddSegment(seg)}
-                  >
-                    <div className="flex justify-between items-start mb-2">
-                      <span className="text-[10px] font-mono text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded-full">
-                        {seg.startTime.toFixed(2)}s - {seg.endTime.toFixed(2)}s
-                      </span>
-                      <PlusCircle className="w-4 h-4 opacity-0 group-hover:opacity-100 text-indigo-400 transition-opacity" />
-                    </div>
-                    <p className="text-sm text-slate-200 leading-relaxed line-clamp-3">{seg.text}</p>
-                  </div>
+                    segment={seg}
+                    allSegments={segments}
+                    duration={video?.duration ?? 0}
+                    languages={languages}
+                    mergeTarget={getNextSegment(seg.id) ?? null}
+                    onSave={handleSaveSegment}
+                    onSplit={handleSplitSegment}
+                    onMergeNext={handleMergeNext}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <SegmentCard
+                    key={seg.id}
+                    segment={seg}
+                    query={segmentFilter.query}
+                    active={seg.id === activeSegmentId}
+                    selected={checkedIds.includes(seg.id)}
+                    onAdd={handleAddSegment}
+                    onSelect={handleCheckSegment}
+                    onEdit={(s) => setEditingId(s.id)}
+                  />
                 ))
+              ) : segments.length > 0 ? (
+                <div className="flex flex-col items-center justify-center h-full text-slate-600 text-center px-8">
+                  <Scissors className="w-8 h-8 mb-4 opacity-20" />
+                  <p className="text-sm">没有符合筛选条件的片段</p>
+                </div>
               ) : (
                 <div className="flex flex-col items-center justify-center h-full text-slate-600 text-center px-8">
                   <Scissors className="w-8 h-8 mb-4 opacity-20" />
@@ -393,7 +1387,7 @@ const App: React.FC = () => {
 
             <div className="grid grid-cols-2 gap-4">
               <button onClick={() => setStatus(AppStatus.READY)} className="w-full bg-slate-800 hover:bg-slate-700 text-slate-200 font-bold py-4 rounded-2xl transition-all">返回修改</button>
-              <a href={finalVideoUrl} download={`NovaClip_${Date.now()}.webm`} className="flex items-center justify-center gap-3 w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4 rounded-2xl transition-all shadow-xl shadow-indigo-600/20">
+              <a href={finalVideoUrl} download={`NovaClip_${Date.now()}.${finalVideoExt}`} className="flex items-center justify-center gap-3 w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4 rounded-2xl transition-all shadow-xl shadow-indigo-600/20">
                 <Download className="w-5 h-5" /> 立即下载
               </a>
             </div>
@@ -401,6 +1395,19 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showExportDialog && (
+        <ExportDialog
+          settings={exportSettings}
+          capabilities={exportCapabilities}
+          sourceWidth={sourceSize().width}
+          sourceHeight={sourceSize().height}
+          duration={buildComposition(selectedSegments, composition, exportSettings.frameRate).duration}
+          onChange={setExportSettings}
+          onConfirm={handleGenerateFinalVideo}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
       {error && (
         <div className="fixed bottom-8 right-8 bg-red-600 text-white px-6 py-4 rounded-2xl shadow-2xl flex items-center gap-4 animate-slide-in border border-red-500/50 z-50">
           <AlertCircle className="w-6 h-6" />
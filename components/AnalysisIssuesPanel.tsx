@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { AnalysisIssue } from '../types';
+import { ANALYSIS_ISSUE_LABELS } from '../utils/segmentValidation';
+
+interface AnalysisIssuesPanelProps {
+  issues: AnalysisIssue[];
+  onDismiss: () => void;
+}
+
+const AnalysisIssuesPanel: React.FC<AnalysisIssuesPanelProps> = ({ issues, onDismiss }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="mx-4 mt-4 rounded-lg border border-amber-500/30 bg-amber-500/10 text-xs text-amber-300">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <AlertTriangle className="w-4 h-4 shrink-0" />
+        <button onClick={() => setExpanded(v => !v)} className="flex-grow flex items-center gap-1 text-left font-bold">
+          分析结果已自动修复 {issues.length} 个问题
+          {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+        <button onClick={onDismiss} className="text-amber-400/60 hover:text-amber-200">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {expanded && (
+        <ul className="px-3 pb-3 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+          {issues.map((issue, i) => (
+            <li key={i} className="flex gap-2">
+              <span className="shrink-0 px-1.5 rounded bg-amber-500/20 text-[10px] font-bold">{ANALYSIS_ISSUE_LABELS[issue.kind]}</span>
+              <span className="text-amber-200/80">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisIssuesPanel;
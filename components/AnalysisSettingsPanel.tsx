@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Cpu } from 'lucide-react';
+import { AnalysisProviderId, AnalysisSettings } from '../types';
+import { ANALYSIS_PROVIDER_LABELS } from '../services/analysisProvider';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className="text-[11px] text-slate-500">{label}</span>
+    {children}
+  </label>
+);
+
+const RememberCredentials: React.FC<{ checked: boolean; onChange: (checked: boolean) => void }> = ({ checked, onChange }) => (
+  <label className="flex items-center gap-2 text-[11px] text-slate-500">
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+    在本机记住密钥（以明文保存在浏览器中，仅在自己的设备上勾选）
+  </label>
+);
+
+const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const update = <K extends 'gemini' | 'http' | 'fixture' | 'silence'>(key: K, patch: Partial<AnalysisSettings[K]>) => {
+    onChange({ ...settings, [key]: { ...settings[key], ...patch } });
+  };
+
+  const handleFixtureFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) update('fixture', { fallbackJson: await file.text() });
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-4 shadow-xl">
+      <button onClick={() => setExpanded(v => !v)} className="w-full flex items-center gap-2 text-left">
+        <Cpu className="text-indigo-400 w-5 h-5" />
+        <span className="text-sm font-semibold text-slate-200 flex-grow">
+          分析服务：{ANALYSIS_PROVIDER_LABELS[settings.providerId]}
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-3">
+          <Field label="服务类型">
+            <select
+              value={settings.providerId}
+              onChange={(e) => onChange({ ...settings, providerId: e.target.value as AnalysisProviderId })}
+              className={inputClass}
+            >
+              {(Object.keys(ANALYSIS_PROVIDER_LABELS) as AnalysisProviderId[]).map(id => (
+                <option key={id} value={id}>{ANALYSIS_PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </Field>
+
+          {settings.providerId === 'gemini' && (
+            <>
+              <Field label="API Key（留空则使用 .env.local 中的 GEMINI_API_KEY）">
+                <input
+                  type="password"
+                  value={settings.gemini.apiKey}
+                  onChange={(e) => update('gemini', { apiKey: e.target.value })}
+                  className={inputClass}
+                />
+              </Field>
+              <RememberCredentials checked={settings.rememberCredentials} onChange={rememberCredentials => onChange({ ...settings, rememberCredentials })} />
+              <Field label="模型">
+                <input value={settings.gemini.model} onChange={(e) => update('gemini', { model: e.target.value })} className={inputClass} />
+              </Field>
+            </>
+          )}
+
+          {settings.providerId === 'http' && (
+            <>
+              <Field label="服务地址（whisper.cpp server 或 OpenAI 兼容的转录接口）">
+                <input value={settings.http.endpoint} onChange={(e) => update('http', { endpoint: e.target.value })} className={inputClass} />
+              </Field>
+              <div className="grid grid-cols-2 gap-3">
+                <Field label="语言">
+                  <input value={settings.http.language} onChange={(e) => update('http', { language: e.target.value })} className={inputClass} />
+                </Field>
+                <Field label="访问令牌（可选）">
+                  <input
+                    type="password"
+                    value={settings.http.authToken}
+                    onChange={(e) => update('http', { authToken: e.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+              </div>
+              <RememberCredentials checked={settings.rememberCredentials} onChange={rememberCredentials => onChange({ ...settings, rememberCredentials })} />
+            </>
+          )}
+
+          {settings.providerId === 'fixture' && (
+            <>
+              <p className="text-[11px] text-slate-500">
+                优先回放该视频此前的在线分析结果；没有录制时使用下方的 JSON 数据。
+              </p>
+              <Field label="回放数据（SubtitleSegment[] JSON）">
+                <textarea
+                  value={settings.fixture.fallbackJson}
+                  onChange={(e) => update('fixture', { fallbackJson: e.target.value })}
+                  rows={4}
+                  className={`${inputClass} font-mono text-xs resize-none`}
+                />
+              </Field>
+              <input type="file" accept=".json,application/json" onChange={handleFixtureFile} className="text-xs text-slate-500" />
+            </>
+          )}
+
+          <div className="pt-3 border-t border-slate-800 space-y-3">
+            <p className="text-[11px] text-slate-500">
+              {settings.providerId === 'silence'
+                ? '仅按音轨中的静音切分片段，不做转录；静音区间标记为冗余。'
+                : '本地音频分析：检测静音并将片段边界吸附到语音起止点，纯静音片段标记为冗余。'}
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              <Field label="静音阈值 (dB)">
+                <input
+                  type="number"
+                  step={1}
+                  max={0}
+                  value={settings.silence.thresholdDb}
+                  onChange={(e) => update('silence', { thresholdDb: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </Field>
+              <Field label="最短静音 (秒)">
+                <input
+                  type="number"
+                  step={0.05}
+                  min={0}
+                  value={settings.silence.minSilence}
+                  onChange={(e) => update('silence', { minSilence: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </Field>
+              <Field label="吸附范围 (秒)">
+                <input
+                  type="number"
+                  step={0.05}
+                  min={0}
+                  value={settings.silence.snapRange}
+                  onChange={(e) => update('silence', { snapRange: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </Field>
+            </div>
+            {settings.providerId !== 'silence' && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={settings.silence.refineAfterAnalysis}
+                  onChange={(e) => update('silence', { refineAfterAnalysis: e.target.checked })}
+                />
+                分析完成后自动校准边界
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisSettingsPanel;
@@ -0,0 +1,183 @@
+import React from 'react';
+import {
+  Circle,
+  CircleCheck,
+  CircleX,
+  FolderOpen,
+  Layers,
+  LoaderCircle,
+  Package,
+  RotateCcw,
+  X
+} from 'lucide-react';
+import { AppStatus, ProcessingStep } from '../types';
+import {
+  BATCH_STATUS_LABELS,
+  BatchJob,
+  BatchSettings,
+  MAX_BATCH_CONCURRENCY,
+  isJobRunning
+} from '../utils/batchQueue';
+import { SUBTITLE_FORMATS, SubtitleFormat } from '../utils/subtitleFormats';
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  settings: BatchSettings;
+  packaging: boolean;
+  onChangeSettings: (settings: BatchSettings) => void;
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onOpenProject: (projectId: string) => void;
+  onDownloadAll: () => void;
+}
+
+const StepIcon: React.FC<{ status: ProcessingStep['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'loading': return <LoaderCircle className="w-3 h-3 animate-spin text-indigo-400" />;
+    case 'completed': return <CircleCheck className="w-3 h-3 text-green-400" />;
+    case 'error': return <CircleX className="w-3 h-3 text-red-400" />;
+    default: return <Circle className="w-3 h-3 text-slate-600" />;
+  }
+};
+
+const statusClass = (job: BatchJob) => {
+  if (job.error) return 'bg-red-500/15 text-red-300';
+  if (job.status === AppStatus.COMPLETED) return 'bg-green-500/15 text-green-300';
+  if (job.status === AppStatus.IDLE) return 'bg-slate-700/50 text-slate-400';
+  return 'bg-indigo-500/15 text-indigo-300';
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  jobs,
+  settings,
+  packaging,
+  onChangeSettings,
+  onRetry,
+  onRetryFailed,
+  onRemove,
+  onClearFinished,
+  onOpenProject,
+  onDownloadAll
+}) => {
+  const done = jobs.filter(job => job.status === AppStatus.COMPLETED).length;
+  const failed = jobs.filter(job => job.error).length;
+  const hasOutputs = jobs.some(job => job.segments.length > 0);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 shadow-xl space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Layers className="text-indigo-400 w-5 h-5" />
+          <h2 className="text-lg font-semibold text-slate-200">批量处理</h2>
+          <span className="text-xs text-slate-500">{done}/{jobs.length} 完成{failed > 0 ? ` · ${failed} 失败` : ''}</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          {failed > 0 && (
+            <button onClick={onRetryFailed} className="text-slate-500 hover:text-indigo-400 transition-colors flex items-center gap-1">
+              <RotateCcw className="w-3 h-3" /> 重试失败项
+            </button>
+          )}
+          <button onClick={onClearFinished} className="text-slate-500 hover:text-red-400 transition-colors">
+            清除已结束
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs text-slate-400">
+        <label className="space-y-1">
+          <span className="block text-[11px] text-slate-500">并发数</span>
+          <select
+            value={settings.concurrency}
+            onChange={(e) => onChangeSettings({ ...settings, concurrency: parseInt(e.target.value, 10) })}
+            className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-slate-200"
+          >
+            {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-[11px] text-slate-500">字幕格式</span>
+          <select
+            value={settings.subtitleFormat}
+            onChange={(e) => onChangeSettings({ ...settings, subtitleFormat: e.target.value as SubtitleFormat })}
+            className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-slate-200"
+          >
+            {SUBTITLE_FORMATS.map(format => <option key={format} value={format}>{format.toUpperCase()}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 self-end py-1.5">
+          <input type="checkbox" checked={settings.autoCut} onChange={(e) => onChangeSettings({ ...settings, autoCut: e.target.checked })} />
+          自动粗剪
+        </label>
+        <label className="flex items-center gap-2 self-end py-1.5">
+          <input type="checkbox" checked={settings.render} onChange={(e) => onChangeSettings({ ...settings, render: e.target.checked })} />
+          自动渲染
+        </label>
+      </div>
+      <p className="text-[11px] text-slate-600">设置只影响之后加入的任务；粗剪沿用编辑界面的粗剪参数，渲染沿用上次的导出设置。</p>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar pr-2">
+        {jobs.map(job => (
+          <div key={job.id} className="bg-slate-800/50 p-3 rounded-lg border border-slate-700/50 space-y-2">
+            <div className="flex items-center gap-3">
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-slate-200 truncate">{job.file.name}</p>
+                <div className="flex items-center gap-3 mt-1">
+                  {job.steps.map(step => (
+                    <span key={step.id} className="flex items-center gap-1 text-[10px] text-slate-500">
+                      <StepIcon status={step.status} /> {step.label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <span className={`text-[10px] px-2 py-0.5 rounded-full shrink-0 ${statusClass(job)}`}>
+                {job.error ? '失败' : BATCH_STATUS_LABELS[job.status]}
+              </span>
+              {job.error && (
+                <button onClick={() => onRetry(job.id)} title="重试" className="text-slate-500 hover:text-indigo-400">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+              {job.projectId && !isJobRunning(job) && (
+                <button onClick={() => onOpenProject(job.projectId!)} title="打开项目继续编辑" className="text-slate-500 hover:text-indigo-400">
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+              )}
+              {!isJobRunning(job) && (
+                <button onClick={() => onRemove(job.id)} title="移除" className="text-slate-500 hover:text-red-400">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            {isJobRunning(job) && (
+              <div className="space-y-1">
+                <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full bg-indigo-500 ${job.progress === null ? 'w-1/3 animate-pulse' : 'transition-[width]'}`}
+                    style={job.progress === null ? undefined : { width: `${Math.round(job.progress * 100)}%` }}
+                  />
+                </div>
+                <p className="text-[10px] text-slate-500 truncate">{job.message}</p>
+              </div>
+            )}
+            {job.error && <p className="text-[10px] text-red-400/80 break-words">{job.error}</p>}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onDownloadAll}
+        disabled={!hasOutputs || packaging}
+        className="w-full flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 text-sm font-medium py-2.5 rounded-xl transition-colors"
+      >
+        {packaging ? <LoaderCircle className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+        {packaging ? '正在打包...' : '打包下载全部成片与字幕 (ZIP)'}
+      </button>
+    </div>
+  );
+};
+
+export default BatchPanel;
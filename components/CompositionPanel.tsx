@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Clapperboard, ImagePlus, Music, X } from 'lucide-react';
+import { ClipTransition, CompositionSettings, SubtitleSegment, TitleCard, TransitionKind } from '../types';
+import { MAX_TRANSITION_DURATION, TRANSITION_LABELS } from '../utils/composition';
+
+interface CompositionPanelProps {
+  settings: CompositionSettings;
+  clips: SubtitleSegment[];
+  musicName: string | null;
+  onChange: (settings: CompositionSettings) => void;
+  // 设置队列中第 index 个片段之前的切点转场，undefined 表示使用默认转场
+  onChangeTransition: (index: number, transition: ClipTransition | undefined) => void;
+  onChangeMusic: (file: File | null) => void;
+}
+
+const selectClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500";
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const TRANSITION_KINDS = Object.keys(TRANSITION_LABELS) as TransitionKind[];
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, format, disabled, onChange }) => (
+  <label className={`block space-y-1 ${disabled ? 'opacity-50' : ''}`}>
+    <span className="flex justify-between text-[11px] text-slate-500">
+      {label}
+      <span className="font-mono text-slate-400">{format(value)}</span>
+    </span>
+    <input type="range" min={min} max={max} step={step} value={value} disabled={disabled} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full" />
+  </label>
+);
+
+const CardEditor: React.FC<{
+  label: string;
+  card: TitleCard;
+  onChange: (card: TitleCard) => void;
+}> = ({ label, card, onChange }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePickImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onChange({ ...card, image: await readAsDataUrl(file) });
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-800 p-3 space-y-2">
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        <input type="checkbox" checked={card.enabled} onChange={(e) => onChange({ ...card, enabled: e.target.checked })} />
+        {label}
+      </label>
+      {card.enabled && (
+        <>
+          <input value={card.title} onChange={(e) => onChange({ ...card, title: e.target.value })} placeholder="标题" className={inputClass} />
+          <input value={card.subtitle} onChange={(e) => onChange({ ...card, subtitle: e.target.value })} placeholder="副标题（可选）" className={inputClass} />
+          <div className="flex items-center gap-3 text-[11px] text-slate-500">
+            <label className="flex items-center gap-1">
+              背景 <input type="color" value={card.background} onChange={(e) => onChange({ ...card, background: e.target.value })} className="w-6 h-5 bg-transparent" />
+            </label>
+            <label className="flex items-center gap-1">
+              文字 <input type="color" value={card.textColor} onChange={(e) => onChange({ ...card, textColor: e.target.value })} className="w-6 h-5 bg-transparent" />
+            </label>
+            {card.image ? (
+              <span className="flex items-center gap-1">
+                <img src={card.image} alt="" className="h-5 w-8 object-cover rounded" />
+                <button onClick={() => onChange({ ...card, image: null })} className="text-slate-600 hover:text-red-400">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ) : (
+              <button onClick={() => imageInputRef.current?.click()} className="flex items-center gap-1 hover:text-indigo-400">
+                <ImagePlus className="w-3 h-3" /> 图片
+              </button>
+            )}
+            <input ref={imageInputRef} type="file" className="hidden" accept="image/*" onChange={handlePickImage} />
+          </div>
+          <Slider label="时长" value={card.duration} min={1} max={10} step={0.5} format={v => `${v}s`} onChange={duration => onChange({ ...card, duration })} />
+        </>
+      )}
+    </div>
+  );
+};
+
+const CompositionPanel: React.FC<CompositionPanelProps> = ({
+  settings,
+  clips,
+  musicName,
+  onChange,
+  onChangeTransition,
+  onChangeMusic
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const { transition, music } = settings;
+
+  const handlePickMusic = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onChangeMusic(file);
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 shadow-xl">
+      <button onClick={() => setExpanded(v => !v)} className="w-full flex items-center gap-2 text-left">
+        <Clapperboard className="text-indigo-400 w-5 h-5" />
+        <h2 className="text-lg font-semibold text-slate-200">转场与包装</h2>
+        <span className="text-xs text-slate-500 flex-grow">
+          {TRANSITION_LABELS[transition.kind]}
+          {settings.intro.enabled ? ' · 片头' : ''}
+          {settings.outro.enabled ? ' · 片尾' : ''}
+          {musicName ? ' · 背景音乐' : ''}
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div className="space-y-2">
+            <h3 className="text-xs font-medium text-slate-400">默认转场</h3>
+            <select
+              value={transition.kind}
+              onChange={(e) => onChange({ ...settings, transition: { ...transition, kind: e.target.value as TransitionKind } })}
+              className={selectClass}
+            >
+              {TRANSITION_KINDS.map(kind => <option key={kind} value={kind}>{TRANSITION_LABELS[kind]}</option>)}
+            </select>
+            <Slider
+              label="转场时长"
+              value={transition.duration}
+              min={0.1}
+              max={MAX_TRANSITION_DURATION}
+              step={0.1}
+              format={v => `${v.toFixed(1)}s`}
+              disabled={transition.kind === 'cut'}
+              onChange={duration => onChange({ ...settings, transition: { ...transition, duration } })}
+            />
+            <p className="text-[11px] text-slate-600">硬切处的音频会做 {Math.round(settings.audioFade * 1000)}ms 淡入淡出以消除爆音。</p>
+          </div>
+
+          {clips.length > 1 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-medium text-slate-400">逐个切点</h3>
+              <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+                {clips.slice(1).map((clip, i) => {
+                  const index = i + 1;
+                  return (
+                    <li key={`${clip.id}-${index}`} className="flex items-center gap-2 text-[11px] text-slate-500">
+                      <span className="w-14 shrink-0 font-mono">{index} → {index + 1}</span>
+                      <select
+                        value={clip.transition?.kind ?? ''}
+                        onChange={(e) => {
+                          const kind = e.target.value as TransitionKind | '';
+                          onChangeTransition(index, kind ? { kind, duration: clip.transition?.duration ?? transition.duration } : undefined);
+                        }}
+                        className={selectClass}
+                      >
+                        <option value="">默认（{TRANSITION_LABELS[transition.kind]}）</option>
+                        {TRANSITION_KINDS.map(kind => <option key={kind} value={kind}>{TRANSITION_LABELS[kind]}</option>)}
+                      </select>
+                      {clip.transition && clip.transition.kind !== 'cut' && (
+                        <input
+                          type="number"
+                          min={0.1}
+                          max={MAX_TRANSITION_DURATION}
+                          step={0.1}
+                          value={clip.transition.duration}
+                          onChange={(e) => onChangeTransition(index, { ...clip.transition!, duration: parseFloat(e.target.value) || 0.1 })}
+                          className={`${inputClass} w-16 shrink-0`}
+                        />
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <CardEditor label="片头卡" card={settings.intro} onChange={intro => onChange({ ...settings, intro })} />
+            <CardEditor label="片尾卡" card={settings.outro} onChange={outro => onChange({ ...settings, outro })} />
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs font-medium text-slate-400 flex items-center gap-1"><Music className="w-3 h-3" /> 背景音乐</h3>
+            {musicName ? (
+              <div className="flex items-center gap-2 text-xs text-slate-300">
+                <span className="truncate flex-grow">{musicName}</span>
+                <button onClick={() => onChangeMusic(null)} className="text-slate-600 hover:text-red-400">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <button onClick={() => musicInputRef.current?.click()} className="text-xs text-slate-500 hover:text-indigo-400 transition-colors">
+                选择音乐文件...
+              </button>
+            )}
+            <input ref={musicInputRef} type="file" className="hidden" accept="audio/*" onChange={handlePickMusic} />
+            <Slider label="音乐音量" value={music.volume} min={0} max={1} step={0.05} format={v => `${Math.round(v * 100)}%`} disabled={!musicName} onChange={volume => onChange({ ...settings, music: { ...music, volume } })} />
+            <Slider label="人声时降至" value={music.duckLevel} min={0} max={1} step={0.05} format={v => `${Math.round(v * 100)}%`} disabled={!musicName} onChange={duckLevel => onChange({ ...settings, music: { ...music, duckLevel } })} />
+            <p className="text-[11px] text-slate-600">音乐循环铺满成片，首尾自动淡入淡出；音乐文件不随项目保存。</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompositionPanel;
@@ -0,0 +1,189 @@
+import React from 'react';
+import { Loader2, Settings2, Sparkles, X } from 'lucide-react';
+import { AspectPreset, ExportContainer, ExportQuality, ExportSettings, ExportVideoCodec, FrameFit } from '../types';
+import { ExportCapabilities } from '../services/renderEngine';
+import {
+  CODEC_LABELS,
+  CONTAINER_CODECS,
+  FRAME_RATE_OPTIONS,
+  QUALITY_LABELS,
+  SCALE_OPTIONS,
+  estimateFileSize,
+  formatBytes,
+  outputSize,
+  resolveVideoBitrate
+} from '../utils/exportSettings';
+import { ASPECT_PRESETS, FRAME_FIT_LABELS, isReframed } from '../utils/reframe';
+
+interface ExportDialogProps {
+  settings: ExportSettings;
+  capabilities: ExportCapabilities | null;
+  sourceWidth: number;
+  sourceHeight: number;
+  duration: number;
+  onChange: (settings: ExportSettings) => void;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const AUDIO_CODEC_LABELS: Record<ExportContainer, string> = { mp4: 'AAC', webm: 'Opus' };
+
+const selectClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className="text-xs text-slate-500">{label}</span>
+    {children}
+  </label>
+);
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  settings,
+  capabilities,
+  sourceWidth,
+  sourceHeight,
+  duration,
+  onChange,
+  onConfirm,
+  onClose
+}) => {
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+
+  const supportedCodecs = (container: ExportContainer) => capabilities?.videoCodecs[container] ?? [];
+  const supportsAudio = (container: ExportContainer) => !!capabilities?.audio[container];
+  // 容器不可用的原因；音频编码不可用时渲染会失败并回退为实时录制的 WebM，因此同样禁用
+  const unavailableReason = (container: ExportContainer) => {
+    if (supportedCodecs(container).length === 0) return '不支持';
+    if (!supportsAudio(container)) return `不支持 ${AUDIO_CODEC_LABELS[container]} 音频`;
+    return null;
+  };
+
+  const handleContainerChange = (container: ExportContainer) => {
+    const codecs = supportedCodecs(container);
+    update({
+      container,
+      videoCodec: codecs.includes(settings.videoCodec) ? settings.videoCodec : codecs[0] ?? CONTAINER_CODECS[container][0]
+    });
+  };
+
+  const output = outputSize(settings, sourceWidth, sourceHeight);
+  const bitrate = resolveVideoBitrate(settings, sourceWidth, sourceHeight);
+  const canExport = !!capabilities
+    && supportsAudio(settings.container)
+    && supportedCodecs(settings.container).includes(settings.videoCodec);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-lg w-full shadow-2xl scale-in-center space-y-6">
+        <div className="flex items-center gap-3">
+          <Settings2 className="text-indigo-400 w-6 h-6" />
+          <h2 className="text-xl font-bold flex-grow">导出设置</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!capabilities ? (
+          <div className="flex items-center gap-2 text-sm text-slate-400">
+            <Loader2 className="w-4 h-4 animate-spin" /> 正在检测浏览器编码能力...
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="容器格式">
+              <select value={settings.container} onChange={(e) => handleContainerChange(e.target.value as ExportContainer)} className={selectClass}>
+                {(['mp4', 'webm'] as ExportContainer[]).map(c => (
+                  <option key={c} value={c} disabled={!!unavailableReason(c)}>
+                    {c.toUpperCase()}{unavailableReason(c) ? `（${unavailableReason(c)}）` : ''}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label={`视频编码（音频 ${AUDIO_CODEC_LABELS[settings.container]}）`}>
+              <select value={settings.videoCodec} onChange={(e) => update({ videoCodec: e.target.value as ExportVideoCodec })} className={selectClass}>
+                {CONTAINER_CODECS[settings.container].map(codec => (
+                  <option key={codec} value={codec} disabled={!supportedCodecs(settings.container).includes(codec)}>
+                    {CODEC_LABELS[codec]}{supportedCodecs(settings.container).includes(codec) ? '' : '（不支持）'}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="画幅">
+              <select value={settings.aspect} onChange={(e) => update({ aspect: e.target.value as AspectPreset })} className={selectClass}>
+                {(Object.keys(ASPECT_PRESETS) as AspectPreset[]).map(aspect => (
+                  <option key={aspect} value={aspect}>{ASPECT_PRESETS[aspect].label}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label="画面填充">
+              <select
+                value={settings.fit}
+                disabled={!isReframed(settings.aspect, sourceWidth, sourceHeight)}
+                onChange={(e) => update({ fit: e.target.value as FrameFit })}
+                className={`${selectClass} disabled:opacity-50`}
+              >
+                {(Object.keys(FRAME_FIT_LABELS) as FrameFit[]).map(fit => (
+                  <option key={fit} value={fit}>{FRAME_FIT_LABELS[fit]}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label="分辨率">
+              <select value={settings.scale} onChange={(e) => update({ scale: parseFloat(e.target.value) })} className={selectClass}>
+                {SCALE_OPTIONS.map(scale => {
+                  const size = outputSize({ ...settings, scale }, sourceWidth, sourceHeight);
+                  return <option key={scale} value={scale}>{Math.round(scale * 100)}% ({size.width}x{size.height})</option>;
+                })}
+              </select>
+            </Field>
+            <Field label="帧率">
+              <select value={settings.frameRate} onChange={(e) => update({ frameRate: parseInt(e.target.value, 10) })} className={selectClass}>
+                {FRAME_RATE_OPTIONS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+              </select>
+            </Field>
+            <Field label="画质">
+              <select value={settings.quality} onChange={(e) => update({ quality: e.target.value as ExportQuality })} className={selectClass}>
+                {(Object.keys(QUALITY_LABELS) as ExportQuality[]).map(q => <option key={q} value={q}>{QUALITY_LABELS[q]}</option>)}
+              </select>
+            </Field>
+            <Field label="视频码率 (Mbps)">
+              <input
+                type="number"
+                min={0.2}
+                step={0.5}
+                disabled={settings.quality !== 'custom'}
+                value={Number((bitrate / 1_000_000).toFixed(2))}
+                onChange={(e) => update({ videoBitrate: Math.max(200_000, parseFloat(e.target.value) * 1_000_000 || 0) })}
+                className={`${selectClass} disabled:opacity-50`}
+              />
+            </Field>
+          </div>
+        )}
+
+        <div className="bg-slate-800/50 rounded-xl p-4 text-xs text-slate-400 space-y-1">
+          <p>输出：{output.width}x{output.height} · {settings.frameRate} fps · 时长 {duration.toFixed(1)}s</p>
+          <p>预计文件大小：<span className="text-slate-200 font-bold">{formatBytes(estimateFileSize(settings, sourceWidth, sourceHeight, duration))}</span></p>
+          {isReframed(settings.aspect, sourceWidth, sourceHeight) && settings.fit === 'crop' && (
+            <p>裁剪位置可在播放器上为每个片段单独调整</p>
+          )}
+          {capabilities && !supportsAudio(settings.container) && (
+            <p className="text-amber-400">
+              当前浏览器无法编码 {AUDIO_CODEC_LABELS[settings.container]} 音频，不能导出 {settings.container.toUpperCase()}，请改用其他容器格式
+            </p>
+          )}
+          {capabilities && (
+            <p>{capabilities.webCodecs ? '使用 WebCodecs 离线渲染，快于实时播放' : '浏览器不支持 WebCodecs，将按实时播放速度录制'}</p>
+          )}
+        </div>
+
+        <button
+          disabled={!canExport}
+          onClick={onConfirm}
+          className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3 rounded-xl font-bold transition-all"
+        >
+          <Sparkles className="w-5 h-5" /> 开始生成
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,96 @@
+import React, { useRef } from 'react';
+import { FileUp, FolderOpen, Link2, Trash2, X } from 'lucide-react';
+import { ProjectData } from '../types';
+
+interface ProjectListProps {
+  projects: ProjectData[];
+  relinkProject: ProjectData | null;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onRelink: (file: File) => void;
+  onCancelRelink: () => void;
+}
+
+const formatDate = (ts: number) =>
+  new Date(ts).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const ProjectList: React.FC<ProjectListProps> = ({
+  projects,
+  relinkProject,
+  onResume,
+  onDelete,
+  onImport,
+  onRelink,
+  onCancelRelink
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const relinkInputRef = useRef<HTMLInputElement>(null);
+
+  const pickFile = (e: React.ChangeEvent<HTMLInputElement>, handler: (file: File) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handler(file);
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 shadow-xl">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-2">
+          <FolderOpen className="text-indigo-400 w-5 h-5" />
+          <h2 className="text-lg font-semibold text-slate-200">最近的项目</h2>
+        </div>
+        <button onClick={() => importInputRef.current?.click()} className="text-xs text-slate-500 hover:text-indigo-400 transition-colors flex items-center gap-1">
+          <FileUp className="w-3 h-3" /> 导入项目文件
+        </button>
+        <input ref={importInputRef} type="file" className="hidden" accept=".json,application/json" onChange={(e) => pickFile(e, onImport)} />
+      </div>
+
+      {relinkProject && (
+        <div className="mb-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-xs text-amber-300 flex items-center gap-3">
+          <Link2 className="w-4 h-4 shrink-0" />
+          <p className="flex-grow">
+            项目「{relinkProject.name}」的视频不在本地存储中，请重新选择原视频
+            {relinkProject.video.name && <span className="font-mono"> {relinkProject.video.name}</span>}
+          </p>
+          <button onClick={() => relinkInputRef.current?.click()} className="px-3 py-1 rounded-md bg-amber-500/20 hover:bg-amber-500/30 font-bold">
+            选择视频
+          </button>
+          <button onClick={onCancelRelink} className="text-amber-400/60 hover:text-amber-200">
+            <X className="w-4 h-4" />
+          </button>
+          <input ref={relinkInputRef} type="file" className="hidden" accept="video/*" onChange={(e) => pickFile(e, onRelink)} />
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar pr-2">
+        {projects.length > 0 ? projects.map(project => (
+          <div
+            key={project.id}
+            onClick={() => onResume(project.id)}
+            className="flex items-center gap-3 bg-slate-800/50 hover:bg-slate-800 p-3 rounded-lg border border-slate-700/50 cursor-pointer group transition-colors"
+          >
+            <div className="flex-grow min-w-0">
+              <p className="text-sm text-slate-200 truncate">{project.name}</p>
+              <p className="text-[10px] text-slate-500">
+                {formatDate(project.updatedAt)} · {project.segments.length} 个片段 · 队列 {project.selectedSegments.length}
+              </p>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(project.id); }}
+              className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )) : (
+          <div className="h-16 flex items-center justify-center border border-dashed border-slate-800 rounded-lg text-slate-600 text-sm italic">
+            暂无保存的项目
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef } from 'react';
+import { AspectPreset, CaptionSettings, SubtitleSegment, SubtitleStyle } from '../types';
+import { CaptionBlock, drawCaption, layoutCaption } from '../utils/subtitleRenderer';
+import { ASPECT_PRESETS, CENTER_CROP, aspectFrameSize, cropCenterAt, cropRect } from '../utils/reframe';
+import { captionTracks } from '../utils/translation';
+
+interface ReframeOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  clips: SubtitleSegment[];
+  aspect: AspectPreset;
+  style: SubtitleStyle;
+  captions: CaptionSettings;
+  // 开启后可拖动裁剪窗口，此时覆盖层会拦截播放器上的鼠标操作
+  editable: boolean;
+  onMoveCrop: (index: number, center: { x: number; y: number }, clipTime: number) => void;
+}
+
+// 裁剪窗口以外区域的遮罩
+const MASK_COLOR = 'rgba(2, 6, 23, 0.6)';
+
+/**
+ * 在源画面上标出当前片段的裁剪窗口，并按输出画幅排版字幕后映射回窗口内，
+ * 与合成时在新画幅上的字幕布局一致。
+ */
+const ReframeOverlay: React.FC<ReframeOverlayProps> = (props) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // rAF 循环读取最新的 props，避免拖动时反复重启循环
+  const propsRef = useRef(props);
+  propsRef.current = props;
+  const dragRef = useRef<{ pointerX: number; pointerY: number; center: { x: number; y: number }; index: number } | null>(null);
+
+  const activeClip = (time: number) => {
+    const index = propsRef.current.clips.findIndex(c => time >= c.startTime && time < c.endTime);
+    return { index, clip: propsRef.current.clips[index] as SubtitleSegment | undefined };
+  };
+
+  useEffect(() => {
+    let frame = 0;
+    let cached: { key: string; style: SubtitleStyle; captions: CaptionSettings; blocks: CaptionBlock[] } | null = null;
+
+    const render = () => {
+      frame = requestAnimationFrame(render);
+      const { videoRef, aspect, style, captions } = propsRef.current;
+      const videoEl = videoRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const ratio = ASPECT_PRESETS[aspect].ratio;
+      if (!videoEl || !canvas || !ctx || !videoEl.videoWidth || !ratio) return;
+
+      const width = videoEl.videoWidth;
+      const height = videoEl.videoHeight;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      const time = videoEl.currentTime;
+      const { clip } = activeClip(time);
+      const center = clip ? cropCenterAt(clip.crop, time - clip.startTime) : CENTER_CROP;
+      const rect = cropRect(width, height, ratio, center);
+
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, width, height);
+      ctx.clearRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.save();
+      ctx.strokeStyle = clip ? '#818cf8' : '#64748b';
+      ctx.lineWidth = Math.max(2, height / 360);
+      ctx.setLineDash(clip ? [] : [12, 8]);
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.restore();
+
+      if (!clip) return;
+      const output = aspectFrameSize(width, height, aspect);
+      const key = `${clip.id}|${clip.text}|${width}x${height}|${aspect}`;
+      if (cached?.key !== key || cached.style !== style || cached.captions !== captions) {
+        const blocks = layoutCaption(ctx, captionTracks(clip, style, captions), output.width, output.height);
+        cached = { key, style, captions, blocks };
+      }
+      ctx.save();
+      ctx.translate(rect.x, rect.y);
+      ctx.scale(rect.width / output.width, rect.height / output.height);
+      drawCaption(ctx, cached.blocks, (time - clip.startTime) / (clip.endTime - clip.startTime), output.height);
+      ctx.restore();
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // 屏幕坐标的位移换算为源画面中的相对位移（画布以 object-contain 显示）
+  const displayScale = () => {
+    const canvas = canvasRef.current!;
+    const box = canvas.getBoundingClientRect();
+    return Math.min(box.width / canvas.width, box.height / canvas.height);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const videoEl = props.videoRef.current;
+    if (!props.editable || !videoEl) return;
+    const time = videoEl.currentTime;
+    const { index, clip } = activeClip(time);
+    if (!clip) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, center: cropCenterAt(clip.crop, time - clip.startTime), index };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const videoEl = props.videoRef.current;
+    const canvas = canvasRef.current;
+    if (!drag || !videoEl || !canvas) return;
+    const scale = displayScale();
+    const clamp = (v: number) => Math.max(0, Math.min(1, v));
+    const center = {
+      x: clamp(drag.center.x + (e.clientX - drag.pointerX) / scale / canvas.width),
+      y: clamp(drag.center.y + (e.clientY - drag.pointerY) / scale / canvas.height)
+    };
+    const clip = props.clips[drag.index];
+    if (clip) props.onMoveCrop(drag.index, center, videoEl.currentTime - clip.startTime);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`absolute inset-0 w-full h-full object-contain ${props.editable ? 'cursor-move' : 'pointer-events-none'}`}
+    />
+  );
+};
+
+export default ReframeOverlay;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Crop, Move, Trash2 } from 'lucide-react';
+import { AspectPreset, FrameFit, SubtitleSegment } from '../types';
+import { ASPECT_PRESETS, FRAME_FIT_LABELS, isReframed } from '../utils/reframe';
+
+interface ReframePanelProps {
+  aspect: AspectPreset;
+  fit: FrameFit;
+  sourceWidth: number;
+  sourceHeight: number;
+  // 播放头所在的队列片段
+  clipIndex: number;
+  clip: SubtitleSegment | null;
+  editing: boolean;
+  keyframeMode: boolean;
+  onChangeAspect: (aspect: AspectPreset) => void;
+  onChangeFit: (fit: FrameFit) => void;
+  onToggleEditing: () => void;
+  onToggleKeyframeMode: () => void;
+  onRemoveKeyframe: (index: number, time: number) => void;
+  onResetCrop: (index: number) => void;
+  onSeekClipTime: (time: number) => void;
+}
+
+const selectClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const ReframePanel: React.FC<ReframePanelProps> = ({
+  aspect,
+  fit,
+  sourceWidth,
+  sourceHeight,
+  clipIndex,
+  clip,
+  editing,
+  keyframeMode,
+  onChangeAspect,
+  onChangeFit,
+  onToggleEditing,
+  onToggleKeyframeMode,
+  onRemoveKeyframe,
+  onResetCrop,
+  onSeekClipTime
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const reframed = isReframed(aspect, sourceWidth, sourceHeight);
+  const keyframes = clip?.crop ?? [];
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 shadow-xl">
+      <button onClick={() => setExpanded(v => !v)} className="w-full flex items-center gap-2 text-left">
+        <Crop className="text-indigo-400 w-5 h-5" />
+        <h2 className="text-lg font-semibold text-slate-200">画幅</h2>
+        <span className="text-xs text-slate-500 flex-grow">
+          {ASPECT_PRESETS[aspect].label}{reframed ? ` · ${FRAME_FIT_LABELS[fit]}` : ''}
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <select value={aspect} onChange={(e) => onChangeAspect(e.target.value as AspectPreset)} className={selectClass}>
+              {(Object.keys(ASPECT_PRESETS) as AspectPreset[]).map(key => (
+                <option key={key} value={key}>{ASPECT_PRESETS[key].label}</option>
+              ))}
+            </select>
+            <select value={fit} disabled={!reframed} onChange={(e) => onChangeFit(e.target.value as FrameFit)} className={`${selectClass} disabled:opacity-50`}>
+              {(Object.keys(FRAME_FIT_LABELS) as FrameFit[]).map(key => (
+                <option key={key} value={key}>{FRAME_FIT_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+
+          {reframed && fit === 'crop' && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 text-xs">
+                <button
+                  onClick={onToggleEditing}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-md border transition-colors ${
+                    editing ? 'border-indigo-500 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  <Move className="w-3 h-3" /> 在播放器上拖动裁剪窗口
+                </button>
+                <label className="flex items-center gap-1 text-slate-400">
+                  <input type="checkbox" checked={keyframeMode} onChange={onToggleKeyframeMode} />
+                  关键帧
+                </label>
+              </div>
+              <p className="text-[11px] text-slate-500">
+                {keyframeMode
+                  ? '拖动时在播放头位置添加关键帧，关键帧之间平滑移动。'
+                  : '拖动设置整个片段的固定裁剪位置。'}
+              </p>
+
+              {clip ? (
+                <div className="rounded-lg border border-slate-800 p-3 space-y-2">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-slate-300">片段 {clipIndex + 1}：<span className="text-slate-500">{clip.text.slice(0, 18)}</span></span>
+                    <button onClick={() => onResetCrop(clipIndex)} className="text-slate-500 hover:text-red-400">重置居中</button>
+                  </div>
+                  {keyframes.length === 0 ? (
+                    <p className="text-[11px] text-slate-600 italic">居中裁剪</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {keyframes.map(k => (
+                        <li key={k.time} className="flex items-center gap-2 text-[11px] font-mono text-slate-400">
+                          <button onClick={() => onSeekClipTime(k.time)} className="text-indigo-400 hover:text-indigo-300">
+                            +{k.time.toFixed(2)}s
+                          </button>
+                          <span className="flex-grow">x {Math.round(k.x * 100)}% · y {Math.round(k.y * 100)}%</span>
+                          <button onClick={() => onRemoveKeyframe(clipIndex, k.time)} className="text-slate-600 hover:text-red-400">
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <p className="text-[11px] text-slate-600 italic">将播放头移到剪辑队列中的片段上以调整其裁剪位置</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReframePanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { CircleStop, Timer } from 'lucide-react';
+import { RenderProgress } from '../types';
+import { formatClock } from '../utils/media';
+
+interface RenderProgressPanelProps {
+  progress: RenderProgress | null;
+  message: string;
+  cancelling: boolean;
+  onCancel: () => void;
+}
+
+const RenderProgressPanel: React.FC<RenderProgressPanelProps> = ({ progress, message, cancelling, onCancel }) => (
+  <div className="bg-slate-950/60 border border-slate-800 rounded-xl p-4 space-y-3">
+    <div className="flex items-center justify-between gap-4 text-xs">
+      <span className="text-slate-300 font-medium">
+        {progress ? `片段 ${progress.segmentIndex + 1}/${progress.segmentCount}` : '准备中...'}
+      </span>
+      <span className="font-mono text-slate-400">
+        {progress ? `${progress.framesDone}/${progress.totalFrames} 帧 · ${progress.percent}%` : ''}
+      </span>
+    </div>
+
+    <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-indigo-500 transition-[width] duration-150"
+        style={{ width: `${progress?.percent ?? 0}%` }}
+      />
+    </div>
+
+    <div className="flex items-center justify-between gap-4">
+      <p className="text-xs text-slate-500 truncate">{cancelling ? '正在取消...' : message}</p>
+      <div className="flex items-center gap-3 shrink-0">
+        <span className="flex items-center gap-1 text-xs text-slate-400">
+          <Timer className="w-3.5 h-3.5" />
+          {progress?.etaSeconds != null ? `剩余约 ${formatClock(progress.etaSeconds)}` : '估算中...'}
+        </span>
+        <button
+          onClick={onCancel}
+          disabled={cancelling}
+          className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+        >
+          <CircleStop className="w-3.5 h-3.5" /> 取消
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default RenderProgressPanel;
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { ArchiveRestore, ChevronDown, ChevronUp, WandSparkles } from 'lucide-react';
+import { SubtitleSegment } from '../types';
+import {
+  ROUGH_CUT_REASON_LABELS,
+  RoughCutOptions,
+  buildRoughCut,
+  findRemovedSegments
+} from '../utils/roughCut';
+import { sequenceDuration } from '../utils/timeline';
+import { formatClock } from '../utils/media';
+
+interface RoughCutPanelProps {
+  segments: SubtitleSegment[];
+  clips: SubtitleSegment[];
+  duration: number;
+  options: RoughCutOptions;
+  onChangeOptions: (options: RoughCutOptions) => void;
+  onApply: (clips: SubtitleSegment[]) => void;
+  onRestore: (segment: SubtitleSegment) => void;
+  onSeek: (time: number) => void;
+}
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, format, onChange }) => (
+  <label className="block space-y-1">
+    <span className="flex justify-between text-[11px] text-slate-500">
+      {label}
+      <span className="font-mono text-slate-400">{format(value)}</span>
+    </span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full" />
+  </label>
+);
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+const RoughCutPanel: React.FC<RoughCutPanelProps> = ({
+  segments,
+  clips,
+  duration,
+  options,
+  onChangeOptions,
+  onApply,
+  onRestore,
+  onSeek
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+
+  const update = (patch: Partial<RoughCutOptions>) => onChangeOptions({ ...options, ...patch });
+
+  const preview = useMemo(() => buildRoughCut(segments, duration, options), [segments, duration, options]);
+  const removed = useMemo(() => findRemovedSegments(segments, clips, options), [segments, clips, options]);
+  const total = preview.keptDuration + preview.removedDuration;
+  const queueDuration = sequenceDuration(clips);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 shadow-xl">
+      <div className="flex items-center gap-2">
+        <button onClick={() => setExpanded(v => !v)} className="flex-grow flex items-center gap-2 text-left">
+          <WandSparkles className="text-indigo-400 w-5 h-5" />
+          <h2 className="text-lg font-semibold text-slate-200">自动粗剪</h2>
+          {expanded ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+        </button>
+        <button
+          onClick={() => onApply(preview.clips)}
+          disabled={preview.clips.length === 0}
+          className="text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white px-3 py-1.5 rounded-lg font-bold transition-colors"
+        >
+          一键粗剪
+        </button>
+      </div>
+
+      <p className="mt-2 text-xs text-slate-500">
+        将保留 {preview.rangeCount} 段（{preview.clips.length} 句），成片 {formatClock(preview.keptDuration)}，
+        剪掉 {formatClock(preview.removedDuration)}（{percent(preview.removedDuration, total)}%）
+      </p>
+
+      {expanded && (
+        <div className="mt-4 grid grid-cols-3 gap-4">
+          <Slider
+            label="最低置信度"
+            value={options.minConfidence}
+            min={0}
+            max={1}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(minConfidence) => update({ minConfidence })}
+          />
+          <Slider
+            label="前后边距"
+            value={options.padding}
+            min={0}
+            max={1}
+            step={0.05}
+            format={(v) => `${v.toFixed(2)}s`}
+            onChange={(padding) => update({ padding })}
+          />
+          <Slider
+            label="连接间隔"
+            value={options.gapTolerance}
+            min={0}
+            max={3}
+            step={0.1}
+            format={(v) => `${v.toFixed(1)}s`}
+            onChange={(gapTolerance) => update({ gapTolerance })}
+          />
+        </div>
+      )}
+
+      {clips.length > 0 && (
+        <div className="mt-4 border-t border-slate-800 pt-3">
+          <button onClick={() => setReviewing(v => !v)} className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200">
+            当前队列 {formatClock(queueDuration)}，剪掉 {removed.length} 条字幕
+            {reviewing ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          </button>
+          {reviewing && (
+            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+              {removed.length === 0 && <li className="text-xs text-slate-600 italic">没有被剪掉的字幕</li>}
+              {removed.map(({ segment, reason }) => (
+                <li key={segment.id} className="flex items-center gap-2 text-xs">
+                  <button onClick={() => onSeek(segment.startTime)} className="font-mono text-indigo-400 hover:text-indigo-300 shrink-0">
+                    {formatClock(segment.startTime)}
+                  </button>
+                  <span className="shrink-0 px-1.5 rounded bg-slate-800 text-[10px] font-bold text-slate-400">
+                    {ROUGH_CUT_REASON_LABELS[reason]}
+                  </span>
+                  <span className="flex-grow truncate text-slate-400 line-through decoration-slate-600">{segment.text}</span>
+                  <button onClick={() => onRestore(segment)} title="恢复到队列" className="text-slate-500 hover:text-emerald-400 shrink-0">
+                    <ArchiveRestore className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoughCutPanel;
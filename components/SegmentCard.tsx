@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { Pencil, PlusCircle, Square, SquareCheck } from 'lucide-react';
+import { SubtitleSegment } from '../types';
+import { highlightText } from '../utils/segmentSearch';
+
+interface SegmentCardProps {
+  segment: SubtitleSegment;
+  query: string;
+  active: boolean;
+  selected: boolean;
+  onAdd: (seg: SubtitleSegment) => void;
+  onSelect: (seg: SubtitleSegment, range: boolean) => void;
+  onEdit: (seg: SubtitleSegment) => void;
+}
+
+const SegmentCard: React.FC<SegmentCardProps> = ({ segment, query, active, selected, onAdd, onSelect, onEdit }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // 键盘浏览时保持当前项可见
+  useEffect(() => {
+    if (active) ref.current?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (e.shiftKey || e.metaKey || e.ctrlKey) {
+      onSelect(segment, e.shiftKey);
+      return;
+    }
+    onAdd(segment);
+  };
+
+  return (
+    <div
+      ref={ref}
+      className={`group p-4 rounded-xl border transition-all cursor-pointer relative select-none ${
+        selected ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-slate-800/30 hover:bg-slate-800/60 border-slate-700/50 hover:border-indigo-500/30'
+      } ${active ? 'ring-1 ring-indigo-400' : ''} ${segment.isRedundant ? 'opacity-60' : ''}`}
+      onClick={handleClick}
+    >
+      <div className="flex justify-between items-start mb-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={(e) => { e.stopPropagation(); onSelect(segment, e.shiftKey); }}
+            className={selected ? 'text-indigo-300' : 'text-slate-600 hover:text-slate-300'}
+          >
+            {selected ? <SquareCheck className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+          </button>
+          <span className="text-[10px] font-mono text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded-full">
+            {segment.startTime.toFixed(2)}s - {segment.endTime.toFixed(2)}s
+          </span>
+          {segment.isRedundant && <span className="text-[10px] text-amber-500 font-bold">冗余</span>}
+          {segment.confidence < 1 && (
+            <span className="text-[10px] text-slate-500 font-mono">{Math.round(segment.confidence * 100)}%</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={(e) => { e.stopPropagation(); onEdit(segment); }}
+            className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-indigo-300 transition-opacity"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <PlusCircle className="w-4 h-4 opacity-0 group-hover:opacity-100 text-indigo-400 transition-opacity" />
+        </div>
+      </div>
+      <p className="text-sm text-slate-200 leading-relaxed line-clamp-3">
+        {highlightText(segment.text, query).map((part, i) =>
+          part.match ? <mark key={i} className="bg-amber-400/30 text-amber-100 rounded-sm">{part.text}</mark> : part.text
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default SegmentCard;
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, Check, Combine, SplitSquareHorizontal, X } from 'lucide-react';
+import { SubtitleSegment } from '../types';
+import { splitSegment, validateSegment } from '../utils/segmentEditing';
+import { languageLabel } from '../utils/translation';
+import { formatClock } from '../utils/media';
+
+interface SegmentEditorProps {
+  segment: SubtitleSegment;
+  allSegments: SubtitleSegment[];
+  duration: number;
+  // 已翻译的目标语言，与原文并排编辑
+  languages: string[];
+  // “合并下一条”的对象，没有可合并的片段时为 null
+  mergeTarget: SubtitleSegment | null;
+  onSave: (seg: SubtitleSegment) => void;
+  onSplit: (original: SubtitleSegment, parts: [SubtitleSegment, SubtitleSegment]) => void;
+  onMergeNext: (seg: SubtitleSegment) => void;
+  onCancel: () => void;
+}
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({
+  segment,
+  allSegments,
+  duration,
+  languages,
+  mergeTarget,
+  onSave,
+  onSplit,
+  onMergeNext,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState<SubtitleSegment>(segment);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+
+  const issues = validateSegment(draft, allSegments, duration);
+
+  const handleTimeChange = (field: 'startTime' | 'endTime', value: string) => {
+    setDraft(prev => ({ ...prev, [field]: parseFloat(value) }));
+  };
+
+  const handleSplit = () => {
+    const cursor = textRef.current?.selectionStart ?? 0;
+    const parts = splitSegment(draft, cursor, allSegments);
+    if (parts) onSplit(segment, parts);
+  };
+
+  return (
+    <div className="bg-slate-800/60 p-4 rounded-xl border border-indigo-500/40 space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-[10px] font-mono text-slate-400">
+        <input
+          type="number"
+          step="0.01"
+          min={0}
+          value={Number.isFinite(draft.startTime) ? draft.startTime : ''}
+          onChange={(e) => handleTimeChange('startTime', e.target.value)}
+          className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-indigo-300"
+        />
+        <span>s -</span>
+        <input
+          type="number"
+          step="0.01"
+          min={0}
+          max={duration || undefined}
+          value={Number.isFinite(draft.endTime) ? draft.endTime : ''}
+          onChange={(e) => handleTimeChange('endTime', e.target.value)}
+          className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-indigo-300"
+        />
+        <span>s</span>
+      </div>
+
+      <div className={languages.length > 0 ? 'grid grid-cols-2 gap-2' : ''}>
+        <label className="block space-y-1">
+          {languages.length > 0 && <span className="text-[10px] text-slate-500">{languageLabel('source')}</span>}
+          <textarea
+            ref={textRef}
+            value={draft.text}
+            onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+            rows={3}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-slate-200 resize-none focus:outline-none focus:border-indigo-500"
+          />
+        </label>
+        {languages.map(lang => (
+          <label key={lang} className="block space-y-1">
+            <span className="text-[10px] text-slate-500">{languageLabel(lang)}</span>
+            <textarea
+              value={draft.translations?.[lang] ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, translations: { ...prev.translations, [lang]: e.target.value } }))}
+              rows={3}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-slate-200 resize-none focus:outline-none focus:border-indigo-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map((issue, i) => (
+            <li key={i} className="flex items-center gap-1 text-[11px] text-amber-400">
+              <AlertCircle className="w-3 h-3 shrink-0" /> {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={handleSplit}
+          title="在光标处拆分，时间按字数比例分配"
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-900 text-slate-300 hover:text-indigo-300"
+        >
+          <SplitSquareHorizontal className="w-3 h-3" /> 拆分
+        </button>
+        <button
+          onClick={() => onMergeNext(draft)}
+          disabled={!mergeTarget || issues.length > 0}
+          title={mergeTarget ? `与 ${formatClock(mergeTarget.startTime)}「${mergeTarget.text}」合并` : '没有可合并的下一条片段'}
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-900 text-slate-300 hover:text-indigo-300 disabled:opacity-40 min-w-0"
+        >
+          <Combine className="w-3 h-3 shrink-0" />
+          <span className="truncate max-w-[12rem]">
+            合并下一条{mergeTarget && `：${formatClock(mergeTarget.startTime)} ${mergeTarget.text}`}
+          </span>
+        </button>
+        <div className="flex-grow" />
+        <button onClick={onCancel} className="p-1 rounded-md text-slate-500 hover:text-slate-200">
+          <X className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={issues.length > 0}
+          className="p-1 rounded-md text-indigo-400 hover:text-indigo-200 disabled:opacity-40"
+        >
+          <Check className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEditor;
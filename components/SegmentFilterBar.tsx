@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ListPlus, Search, SlidersHorizontal, X } from 'lucide-react';
+import {
+  DEFAULT_SEGMENT_FILTER,
+  REDUNDANCY_FILTER_LABELS,
+  RedundancyFilter,
+  SEGMENT_SORT_LABELS,
+  SegmentFilter,
+  SegmentSort,
+  isFilterActive
+} from '../utils/segmentSearch';
+
+interface SegmentFilterBarProps {
+  filter: SegmentFilter;
+  sort: SegmentSort;
+  resultCount: number;
+  selectedCount: number;
+  onChange: (filter: SegmentFilter) => void;
+  onSortChange: (sort: SegmentSort) => void;
+  onAddSelected: () => void;
+  onAddAll: () => void;
+  onClearSelection: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className="text-[11px] text-slate-500">{label}</span>
+    {children}
+  </label>
+);
+
+const SegmentFilterBar: React.FC<SegmentFilterBarProps> = ({
+  filter,
+  sort,
+  resultCount,
+  selectedCount,
+  onChange,
+  onSortChange,
+  onAddSelected,
+  onAddAll,
+  onClearSelection
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const update = (patch: Partial<SegmentFilter>) => onChange({ ...filter, ...patch });
+  const num = (value: string) => Math.max(0, parseFloat(value) || 0);
+  const active = isFilterActive(filter);
+
+  return (
+    <div className="px-4 pt-4 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-grow">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-500" />
+          <input
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="搜索字幕文本"
+            className={`${inputClass} pl-7 py-1.5`}
+          />
+        </div>
+        <select value={sort} onChange={(e) => onSortChange(e.target.value as SegmentSort)} className={`${inputClass} w-auto py-1.5`}>
+          {(Object.keys(SEGMENT_SORT_LABELS) as SegmentSort[]).map(key => (
+            <option key={key} value={key}>{SEGMENT_SORT_LABELS[key]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setExpanded(v => !v)}
+          title="筛选条件"
+          className={`p-1.5 rounded-md border transition-colors ${active ? 'border-indigo-500 text-indigo-300' : 'border-slate-700 text-slate-500 hover:text-slate-200'}`}
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="grid grid-cols-2 gap-3 p-3 rounded-lg border border-slate-800 bg-slate-950/40">
+          <Field label="显示">
+            <select value={filter.redundancy} onChange={(e) => update({ redundancy: e.target.value as RedundancyFilter })} className={inputClass}>
+              {(Object.keys(REDUNDANCY_FILTER_LABELS) as RedundancyFilter[]).map(key => (
+                <option key={key} value={key}>{REDUNDANCY_FILTER_LABELS[key]}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label={`置信度 ${Math.round(filter.minConfidence * 100)}% - ${Math.round(filter.maxConfidence * 100)}%`}>
+            <div className="flex gap-2">
+              <input
+                type="range" min={0} max={1} step={0.05} value={filter.minConfidence}
+                onChange={(e) => update({ minConfidence: Math.min(parseFloat(e.target.value), filter.maxConfidence) })}
+                className="w-full"
+              />
+              <input
+                type="range" min={0} max={1} step={0.05} value={filter.maxConfidence}
+                onChange={(e) => update({ maxConfidence: Math.max(parseFloat(e.target.value), filter.minConfidence) })}
+                className="w-full"
+              />
+            </div>
+          </Field>
+          <Field label="时长（秒，上限 0 为不限）">
+            <div className="flex gap-2">
+              <input type="number" min={0} step={0.5} value={filter.minDuration} onChange={(e) => update({ minDuration: num(e.target.value) })} className={inputClass} />
+              <input type="number" min={0} step={0.5} value={filter.maxDuration} onChange={(e) => update({ maxDuration: num(e.target.value) })} className={inputClass} />
+            </div>
+          </Field>
+          <Field label="时间范围（秒，结束 0 为到结尾）">
+            <div className="flex gap-2">
+              <input type="number" min={0} step={1} value={filter.timeFrom} onChange={(e) => update({ timeFrom: num(e.target.value) })} className={inputClass} />
+              <input type="number" min={0} step={1} value={filter.timeTo} onChange={(e) => update({ timeTo: num(e.target.value) })} className={inputClass} />
+            </div>
+          </Field>
+          {active && (
+            <button onClick={() => onChange(DEFAULT_SEGMENT_FILTER)} className="col-span-2 text-[11px] text-slate-500 hover:text-red-400 text-left">
+              重置筛选
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 text-[11px]">
+        {selectedCount > 0 ? (
+          <>
+            <span className="text-indigo-300 font-bold">已选 {selectedCount} 个</span>
+            <button onClick={onAddSelected} className="flex items-center gap-1 text-slate-400 hover:text-indigo-300">
+              <ListPlus className="w-3 h-3" /> 加入队列
+            </button>
+            <button onClick={onClearSelection} className="flex items-center gap-1 text-slate-500 hover:text-slate-200">
+              <X className="w-3 h-3" /> 取消选择
+            </button>
+          </>
+        ) : (
+          <span className="text-slate-600">Shift 点击可连选，↑↓ 浏览，Enter 加入，空格选择</span>
+        )}
+        <button
+          onClick={onAddAll}
+          disabled={resultCount === 0}
+          className="ml-auto flex items-center gap-1 text-slate-400 hover:text-indigo-300 disabled:opacity-40"
+        >
+          <ListPlus className="w-3 h-3" /> 全部加入（{resultCount}）
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentFilterBar;
@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import { CaptionSettings, CompositionSettings, SubtitleSegment, SubtitleStyle, TitleCard } from '../types';
+import SubtitleOverlay, { SubtitleCue } from './SubtitleOverlay';
+import { CardImage, buildComposition, drawTitleCard, loadCardImage } from '../utils/composition';
+import { formatClock } from '../utils/media';
+
+interface SequencePreviewProps {
+  videoUrl: string;
+  clips: SubtitleSegment[];
+  composition: CompositionSettings;
+  frameRate: number;
+  style: SubtitleStyle;
+  captions: CaptionSettings;
+  onExit: () => void;
+}
+
+// 预先跳转误差容忍（秒），超过则重新跳转
+const PRESEEK_TOLERANCE = 0.05;
+
+const seekPlayer = (el: HTMLVideoElement, time: number) => {
+  if (Math.abs(el.currentTime - time) > PRESEEK_TOLERANCE) el.currentTime = time;
+};
+
+// 片头/片尾卡用与导出相同的绘制函数画到画布上
+const TitleCardFrame: React.FC<{ card: TitleCard; width: number; height: number }> = ({ card, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let image: CardImage | null = null;
+    const draw = () => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) drawTitleCard(ctx, card, image, width, height);
+    };
+    draw();
+    loadCardImage(card.image)
+      .then(loaded => {
+        if (cancelled) return loaded?.close();
+        image = loaded;
+        draw();
+      })
+      .catch(err => console.warn("卡片图片加载失败", err));
+    return () => {
+      cancelled = true;
+      image?.close();
+    };
+  }, [card, width, height]);
+
+  return <canvas ref={canvasRef} width={width} height={height} className="absolute inset-0 w-full h-full object-contain" />;
+};
+
+/**
+ * 不经编码地预览成片：按与导出相同的成片时间轴（含片头片尾卡与交叉溶解的重叠）在源视频的各区间之间跳转播放。
+ * 两个 <video> 交替使用，当前片段播放时另一个已跳转到下一片段的入点，切换时无需等待 seek。
+ * 转场在预览中以硬切代替，每一项播放到下一项在成片中的起点为止。
+ */
+const SequencePreview: React.FC<SequencePreviewProps> = ({ videoUrl, clips, composition, frameRate, style, captions, onExit }) => {
+  const playerA = useRef<HTMLVideoElement>(null);
+  const playerB = useRef<HTMLVideoElement>(null);
+  const players = [playerA, playerB];
+  const activeSlotRef = useRef(0);
+  const itemIndexRef = useRef(0);
+  // 卡片没有视频可读进度，记录成片时间零点对应的 performance.now() 来推算
+  const cardClockRef = useRef(0);
+  const [activeSlot, setActiveSlot] = useState(0);
+  const [activeCard, setActiveCard] = useState<TitleCard | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [sequenceTime, setSequenceTime] = useState(0);
+
+  const layout = useMemo(() => buildComposition(clips, composition, frameRate), [clips, composition, frameRate]);
+  const { items, duration: total } = layout;
+  const itemEnd = (index: number) => items[index + 1]?.start ?? total;
+  const nextClipIndex = (index: number) => items.findIndex((item, i) => i > index && item.kind === 'clip');
+
+  const player = (slot: number) => players[slot].current;
+
+  const preseek = (slot: number, index: number) => {
+    const el = player(slot);
+    const item = items[index];
+    if (!el || item?.kind !== 'clip') return;
+    el.pause();
+    seekPlayer(el, item.clip.startTime);
+  };
+
+  const activate = (slot: number, index: number, offset: number, autoplay: boolean) => {
+    const item = items[index];
+    if (!item) return;
+    itemIndexRef.current = index;
+    activeSlotRef.current = slot;
+    setActiveSlot(slot);
+
+    if (item.kind === 'card') {
+      players.forEach(ref => ref.current?.pause());
+      cardClockRef.current = performance.now() - (item.start + offset) * 1000;
+      setActiveCard(item.card);
+      // 卡片之后的片段沿用当前播放器，提前跳转到入点
+      preseek(slot, nextClipIndex(index));
+      return;
+    }
+
+    const el = player(slot);
+    const other = player(1 - slot);
+    setActiveCard(null);
+    if (!el) return;
+    other?.pause();
+    if (other) other.muted = true;
+    el.muted = false;
+    seekPlayer(el, item.clip.startTime + offset);
+    if (autoplay) el.play().catch(() => setPlaying(false));
+    preseek(1 - slot, nextClipIndex(index));
+  };
+
+  const seekSequence = (time: number, autoplay = playing) => {
+    const t = Math.max(0, Math.min(total, time));
+    let index = items.findIndex((item, i) => t >= item.start && t < itemEnd(i));
+    if (index < 0) index = items.length - 1;
+    activate(activeSlotRef.current, index, t - items[index].start, autoplay);
+    setSequenceTime(t);
+  };
+
+  // 片段列表或成片设置变化时从头开始
+  useEffect(() => {
+    setPlaying(false);
+    if (items.length > 0) activate(activeSlotRef.current, 0, 0, false);
+    setSequenceTime(0);
+  }, [layout]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      const index = itemIndexRef.current;
+      const slot = activeSlotRef.current;
+      const el = player(slot);
+      const item = items[index];
+      if (!item) return;
+
+      let time: number;
+      if (item.kind === 'card') {
+        time = (performance.now() - cardClockRef.current) / 1000;
+      } else {
+        if (!el) return;
+        time = item.start + Math.max(0, el.currentTime - item.clip.startTime);
+      }
+      if (time < itemEnd(index)) {
+        setSequenceTime(time);
+        return;
+      }
+
+      if (index + 1 >= items.length) {
+        el?.pause();
+        setPlaying(false);
+        setSequenceTime(total);
+        return;
+      }
+      // 片段之间切换到已预先跳转好的另一个播放器；卡片之后沿用当前播放器
+      activate(item.kind === 'clip' ? 1 - slot : slot, index + 1, 0, true);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, layout]);
+
+  const togglePlay = () => {
+    const el = player(activeSlotRef.current);
+    if (!el) return;
+    if (playing) {
+      el.pause();
+      setPlaying(false);
+      return;
+    }
+    if (sequenceTime >= total) {
+      seekSequence(0, true);
+    } else if (items[itemIndexRef.current]?.kind === 'card') {
+      // 暂停期间卡片时钟没有走，从当前位置重新计时
+      seekSequence(sequenceTime, true);
+    } else {
+      el.play().catch(() => undefined);
+    }
+    setPlaying(true);
+  };
+
+  const getCue = useCallback((): SubtitleCue | null => {
+    const item = items[itemIndexRef.current];
+    const el = players[activeSlotRef.current].current;
+    if (item?.kind !== 'clip' || !el) return null;
+    const { clip, clipIndex } = item;
+    const progress = (el.currentTime - clip.startTime) / (clip.endTime - clip.startTime);
+    return progress >= 0 && progress < 1 ? { id: `${clipIndex}-${clip.id}`, segment: clip, progress } : null;
+  }, [layout]);
+
+  return (
+    <div className="absolute inset-0 bg-black flex flex-col z-10">
+      <div className="relative flex-grow">
+        {players.map((ref, slot) => (
+          <video
+            key={slot}
+            ref={ref}
+            src={videoUrl}
+            muted={slot !== activeSlot}
+            playsInline
+            preload="auto"
+            className={`absolute inset-0 w-full h-full object-contain ${slot === activeSlot ? 'opacity-100' : 'opacity-0'}`}
+          />
+        ))}
+        {activeCard && (
+          <TitleCardFrame
+            card={activeCard}
+            width={playerA.current?.videoWidth || 1920}
+            height={playerA.current?.videoHeight || 1080}
+          />
+        )}
+        <SubtitleOverlay videoRef={playerA} style={style} captions={captions} getCue={getCue} />
+        <span className="absolute top-3 left-3 text-[10px] font-bold uppercase tracking-widest bg-indigo-600/80 text-white px-2 py-1 rounded">
+          成片预览
+        </span>
+      </div>
+
+      <div className="flex items-center gap-3 px-4 py-2 bg-slate-950/90">
+        <button onClick={togglePlay} disabled={items.length === 0} className="text-slate-200 hover:text-indigo-300 disabled:opacity-40">
+          {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={total || 0}
+          step={0.01}
+          value={sequenceTime}
+          onChange={(e) => seekSequence(parseFloat(e.target.value))}
+          className="flex-grow"
+        />
+        <span className="text-[11px] font-mono text-slate-400">{formatClock(sequenceTime)} / {formatClock(total)}</span>
+        <button onClick={onExit} className="text-slate-500 hover:text-slate-200">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SequencePreview;
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { CaptionSettings, SubtitleSegment, SubtitleStyle } from '../types';
+import { CaptionBlock, drawCaption, layoutCaption } from '../utils/subtitleRenderer';
+import { pageIndexAt } from '../utils/lineBreak';
+import { captionTracks } from '../utils/translation';
+
+export interface SubtitleCue {
+  id: string;
+  segment: SubtitleSegment;
+  // 当前时刻在片段内的进度（0-1），用于选择分页
+  progress: number;
+}
+
+interface SubtitleOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  style: SubtitleStyle;
+  captions: CaptionSettings;
+  segments?: SubtitleSegment[];
+  // 自定义当前字幕的来源（如成片预览），未提供时按 videoRef 的播放时间在 segments 中查找
+  getCue?: () => SubtitleCue | null;
+}
+
+export const cueAtTime = (segments: SubtitleSegment[], time: number): SubtitleCue | null => {
+  const active = segments.find(s => time >= s.startTime && time < s.endTime);
+  return active
+    ? { id: active.id, segment: active, progress: (time - active.startTime) / (active.endTime - active.startTime) }
+    : null;
+};
+
+/**
+ * 覆盖在播放器上的字幕预览。画布尺寸与视频原始分辨率一致，
+ * 调用与合成相同的排版与绘制函数，再由 CSS object-contain 缩放到播放器大小。
+ */
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ videoRef, style, captions, segments = [], getCue }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    let lastKey = '';
+    // 同一片段只在首次出现或尺寸变化时重新排版
+    let cached: { id: string; size: string; blocks: CaptionBlock[] } | null = null;
+
+    const render = () => {
+      frame = requestAnimationFrame(render);
+      const videoEl = videoRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!videoEl || !canvas || !ctx || !videoEl.videoWidth) return;
+
+      const cue = getCue ? getCue() : cueAtTime(segments, videoEl.currentTime);
+      const size = `${videoEl.videoWidth}x${videoEl.videoHeight}`;
+
+      if (canvas.width !== videoEl.videoWidth || canvas.height !== videoEl.videoHeight) {
+        canvas.width = videoEl.videoWidth;
+        canvas.height = videoEl.videoHeight;
+      }
+      if (cue && (cached?.id !== cue.id || cached.size !== size)) {
+        const tracks = captionTracks(cue.segment, style, captions);
+        cached = { id: cue.id, size, blocks: layoutCaption(ctx, tracks, canvas.width, canvas.height) };
+      }
+
+      const pages = cue && cached ? cached.blocks.map(b => pageIndexAt(b.layout.pages, cue.progress)).join(',') : '';
+      const key = `${cue?.id ?? ''}|${pages}|${size}`;
+      if (key === lastKey) return;
+      lastKey = key;
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      if (cue && cached) drawCaption(ctx, cached.blocks, cue.progress, canvas.height);
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef, segments, style, captions, getCue]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />;
+};
+
+export default SubtitleOverlay;
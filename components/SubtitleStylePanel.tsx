@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Palette, Save, Trash2 } from 'lucide-react';
+import { SubtitleAlign, SubtitlePosition, SubtitleStyle, SubtitleStylePreset } from '../types';
+
+interface SubtitleStylePanelProps {
+  title?: string;
+  style: SubtitleStyle;
+  presets: SubtitleStylePreset[];
+  previewEnabled?: boolean;
+  onChange: (style: SubtitleStyle) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  // 未提供时不显示预览开关（如双语第二行的样式）
+  onTogglePreview?: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className="text-[11px] text-slate-500">{label}</span>
+    {children}
+  </label>
+);
+
+const POSITION_LABELS: Record<SubtitlePosition, string> = {
+  top: '顶部',
+  middle: '居中',
+  bottom: '底部',
+  custom: '自定义'
+};
+
+const ALIGN_LABELS: Record<SubtitleAlign, string> = {
+  left: '左对齐',
+  center: '居中',
+  right: '右对齐'
+};
+
+const SubtitleStylePanel: React.FC<SubtitleStylePanelProps> = ({
+  title = '字幕样式',
+  style,
+  presets,
+  previewEnabled,
+  onChange,
+  onSavePreset,
+  onDeletePreset,
+  onTogglePreview
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const update = (patch: Partial<SubtitleStyle>) => onChange({ ...style, ...patch });
+  const num = (value: string) => parseFloat(value) || 0;
+
+  const activePreset = presets.find(p => JSON.stringify(p.style) === JSON.stringify(style));
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 shadow-xl">
+      <div className="flex items-center gap-2">
+        <button onClick={() => setExpanded(v => !v)} className="flex-grow flex items-center gap-2 text-left">
+          <Palette className="text-indigo-400 w-5 h-5" />
+          <h2 className="text-lg font-semibold text-slate-200">{title}</h2>
+          <span className="text-xs text-slate-500">{activePreset?.name ?? '自定义'}</span>
+          {expanded ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+        </button>
+        {onTogglePreview && (
+          <button onClick={onTogglePreview} className="text-xs text-slate-500 hover:text-indigo-400 transition-colors flex items-center gap-1">
+            {previewEnabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />} 预览
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {presets.map(preset => (
+              <span
+                key={preset.name}
+                className={`flex items-center gap-1 text-xs px-2 py-1 rounded-md border transition-colors ${
+                  activePreset?.name === preset.name ? 'border-indigo-500 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <button onClick={() => onChange(preset.style)}>{preset.name}</button>
+                {!preset.builtIn && (
+                  <button onClick={() => onDeletePreset(preset.name)} className="text-slate-600 hover:text-red-400">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <Field label="字体">
+              <input value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={inputClass} />
+            </Field>
+            <Field label="字号（1080p 像素）">
+              <input type="number" min={8} value={style.fontSize} onChange={(e) => update({ fontSize: num(e.target.value) })} className={inputClass} />
+            </Field>
+            <Field label="粗体">
+              <input type="checkbox" checked={style.bold} onChange={(e) => update({ bold: e.target.checked })} />
+            </Field>
+
+            <Field label="文字颜色">
+              <input type="color" value={style.color} onChange={(e) => update({ color: e.target.value })} className="w-full h-7 bg-transparent" />
+            </Field>
+            <Field label="描边颜色">
+              <input type="color" value={style.outlineColor} onChange={(e) => update({ outlineColor: e.target.value })} className="w-full h-7 bg-transparent" />
+            </Field>
+            <Field label="描边宽度 / 不透明度">
+              <div className="flex gap-1">
+                <input type="number" min={0} step={0.5} value={style.outlineWidth} onChange={(e) => update({ outlineWidth: num(e.target.value) })} className={inputClass} />
+                <input type="number" min={0} max={1} step={0.1} value={style.outlineOpacity} onChange={(e) => update({ outlineOpacity: num(e.target.value) })} className={inputClass} />
+              </div>
+            </Field>
+
+            <Field label="背景框">
+              <input type="checkbox" checked={style.backgroundEnabled} onChange={(e) => update({ backgroundEnabled: e.target.checked })} />
+            </Field>
+            <Field label="背景颜色">
+              <input type="color" value={style.backgroundColor} onChange={(e) => update({ backgroundColor: e.target.value })} className="w-full h-7 bg-transparent" />
+            </Field>
+            <Field label="背景不透明度 / 内边距">
+              <div className="flex gap-1">
+                <input type="number" min={0} max={1} step={0.1} value={style.backgroundOpacity} onChange={(e) => update({ backgroundOpacity: num(e.target.value) })} className={inputClass} />
+                <input type="number" min={0} value={style.backgroundPadding} onChange={(e) => update({ backgroundPadding: num(e.target.value) })} className={inputClass} />
+              </div>
+            </Field>
+
+            <Field label="位置">
+              <select value={style.position} onChange={(e) => update({ position: e.target.value as SubtitlePosition })} className={inputClass}>
+                {(Object.keys(POSITION_LABELS) as SubtitlePosition[]).map(p => <option key={p} value={p}>{POSITION_LABELS[p]}</option>)}
+              </select>
+            </Field>
+            {style.position === 'custom' ? (
+              <Field label={`纵向位置 ${Math.round(style.customY * 100)}%`}>
+                <input type="range" min={0} max={1} step={0.01} value={style.customY} onChange={(e) => update({ customY: num(e.target.value) })} className="w-full" />
+              </Field>
+            ) : (
+              <Field label={`边距 ${Math.round(style.marginV * 100)}%`}>
+                <input type="range" min={0} max={0.4} step={0.01} value={style.marginV} onChange={(e) => update({ marginV: num(e.target.value) })} className="w-full" />
+              </Field>
+            )}
+            <Field label="对齐">
+              <select value={style.align} onChange={(e) => update({ align: e.target.value as SubtitleAlign })} className={inputClass}>
+                {(Object.keys(ALIGN_LABELS) as SubtitleAlign[]).map(a => <option key={a} value={a}>{ALIGN_LABELS[a]}</option>)}
+              </select>
+            </Field>
+
+            <Field label="行距">
+              <input type="number" min={1} step={0.1} value={style.lineSpacing} onChange={(e) => update({ lineSpacing: num(e.target.value) })} className={inputClass} />
+            </Field>
+            <Field label="最多行数">
+              <input type="number" min={1} max={6} value={style.maxLines} onChange={(e) => update({ maxLines: Math.max(1, Math.round(num(e.target.value))) })} className={inputClass} />
+            </Field>
+            <Field label={`最大宽度 ${Math.round(style.maxWidthRatio * 100)}%`}>
+              <input type="range" min={0.3} max={1} step={0.01} value={style.maxWidthRatio} onChange={(e) => update({ maxWidthRatio: num(e.target.value) })} className="w-full" />
+            </Field>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="预设名称"
+              className={inputClass}
+            />
+            <button
+              disabled={!presetName.trim()}
+              onClick={() => { onSavePreset(presetName.trim()); setPresetName(''); }}
+              className="shrink-0 flex items-center gap-1 text-xs px-3 rounded-md bg-slate-800 hover:bg-indigo-600 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              <Save className="w-3 h-3" /> 保存为预设
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleStylePanel;
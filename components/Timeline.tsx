@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GripVertical, Magnet, Trash2, ZoomIn } from 'lucide-react';
+import { CompositionSettings, SubtitleSegment } from '../types';
+import { Thumbnail } from '../services/mediaPreview';
+import { buildComposition } from '../utils/composition';
+import {
+  SNAP_DISTANCE_PX,
+  snapTime,
+  sourceToSequenceTime,
+  trimClip
+} from '../utils/timeline';
+import { formatClock } from '../utils/media';
+
+interface TimelineProps {
+  duration: number;
+  segments: SubtitleSegment[];
+  clips: SubtitleSegment[];
+  composition: CompositionSettings;
+  frameRate: number;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  waveform: Float32Array | null;
+  thumbnails: Thumbnail[];
+  onSeek: (time: number) => void;
+  onAddSegment: (seg: SubtitleSegment) => void;
+  onRemoveClip: (index: number) => void;
+  onMoveClip: (from: number, to: number) => void;
+  onTrimClip: (index: number, clip: SubtitleSegment) => void;
+}
+
+// 画布宽度上限，避免超过浏览器允许的最大尺寸
+const MAX_CANVAS_WIDTH = 30000;
+const SOURCE_TRACK_HEIGHT = 56;
+const RULER_STEPS = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+interface TrimState {
+  index: number;
+  edge: 'start' | 'end';
+  originX: number;
+  original: SubtitleSegment;
+  preview: SubtitleSegment;
+}
+
+interface PlayheadProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // 源视频时间 → 轨道横坐标，返回 null 时不显示
+  toX: (time: number) => number | null;
+  className: string;
+  height?: number;
+}
+
+// 播放头单独订阅播放进度，逐帧刷新时只重渲染这一条线
+const Playhead: React.FC<PlayheadProps> = ({ videoRef, toX, className, height }) => {
+  const [time, setTime] = useState(0);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const t = videoRef.current?.currentTime;
+      if (t !== undefined) setTime(prev => (Math.abs(prev - t) > 1 / 60 ? t : prev));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef]);
+
+  const x = toX(time);
+  if (x === null) return null;
+  return <div className={`absolute w-px bg-red-500 pointer-events-none ${className}`} style={{ left: x, height }} />;
+};
+
+const Timeline: React.FC<TimelineProps> = ({
+  duration,
+  segments,
+  clips,
+  composition,
+  frameRate,
+  videoRef,
+  waveform,
+  thumbnails,
+  onSeek,
+  onAddSegment,
+  onRemoveClip,
+  onMoveClip,
+  onTrimClip
+}) => {
+  const [zoom, setZoom] = useState(20);
+  const [snapping, setSnapping] = useState(true);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [trim, setTrim] = useState<TrimState | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const displayClips = trim ? clips.map((c, i) => (i === trim.index ? trim.preview : c)) : clips;
+  // 成片轨道按导出时的时间轴排布，计入片头片尾卡与交叉溶解的重叠
+  const layout = buildComposition(displayClips, composition, frameRate);
+  const offsets = layout.items.flatMap(item => (item.kind === 'clip' ? [item.start] : []));
+  const totalSeconds = Math.max(duration, layout.duration, 1);
+  const pps = Math.min(zoom, MAX_CANVAS_WIDTH / totalSeconds);
+  const contentWidth = totalSeconds * pps;
+  const rulerStep = RULER_STEPS.find(step => step * pps >= 60) ?? RULER_STEPS[RULER_STEPS.length - 1];
+
+  // 源视频轨道：缩略图铺底，波形叠加在上面
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = Math.ceil(duration * pps);
+    canvas.height = SOURCE_TRACK_HEIGHT;
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    thumbnails.forEach((thumb, i) => {
+      // 已释放的位图宽度为 0（换视频时旧缩略图可能先于状态更新被关闭）
+      if (!thumb.image.width) return;
+      const next = thumbnails[i + 1]?.timestamp ?? duration;
+      const x = thumb.timestamp * pps;
+      const w = Math.max(1, (next - thumb.timestamp) * pps);
+      for (let dx = 0; dx < w; dx += thumb.image.width) {
+        ctx.drawImage(thumb.image, x + dx, 0, Math.min(thumb.image.width, w - dx), canvas.height);
+      }
+    });
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.45)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (waveform && waveform.length > 0) {
+      const mid = canvas.height / 2;
+      ctx.fillStyle = 'rgba(129, 140, 248, 0.85)';
+      for (let x = 0; x < canvas.width; x++) {
+        const peak = waveform[Math.min(waveform.length - 1, Math.floor(x / canvas.width * waveform.length))];
+        const h = Math.max(1, peak * mid);
+        ctx.fillRect(x, mid - h, 1, h * 2);
+      }
+    }
+  }, [waveform, thumbnails, duration, pps]);
+
+  const snapCandidates = (excludeIndex: number) => [
+    videoRef.current?.currentTime ?? 0,
+    ...segments.flatMap(s => [s.startTime, s.endTime]),
+    ...clips.flatMap((c, i) => (i === excludeIndex ? [] : [c.startTime, c.endTime]))
+  ];
+
+  const handleTrimStart = (e: React.PointerEvent, index: number, edge: 'start' | 'end') => {
+    e.stopPropagation();
+    e.preventDefault();
+    setTrim({ index, edge, originX: e.clientX, original: clips[index], preview: clips[index] });
+  };
+
+  useEffect(() => {
+    if (!trim) return;
+    const handleMove = (e: PointerEvent) => {
+      const base = trim.edge === 'start' ? trim.original.startTime : trim.original.endTime;
+      let time = base + (e.clientX - trim.originX) / pps;
+      if (snapping) time = snapTime(time, snapCandidates(trim.index), SNAP_DISTANCE_PX / pps);
+      setTrim(prev => prev && { ...prev, preview: trimClip(prev.original, prev.edge, time, duration) });
+    };
+    const handleUp = () => {
+      onTrimClip(trim.index, trim.preview);
+      setTrim(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  });
+
+  const seekFromEvent = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, Math.min(duration, (e.clientX - rect.left) / pps)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 text-xs text-slate-500">
+        <ZoomIn className="w-4 h-4" />
+        <input type="range" min={2} max={200} value={zoom} onChange={(e) => setZoom(Number(e.target.value))} className="w-32" />
+        <button
+          onClick={() => setSnapping(v => !v)}
+          className={`flex items-center gap-1 transition-colors ${snapping ? 'text-indigo-400' : 'hover:text-slate-300'}`}
+        >
+          <Magnet className="w-3 h-3" /> 吸附
+        </button>
+        <span className="ml-auto font-mono">成片 {layout.duration.toFixed(1)}s</span>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar rounded-lg border border-slate-800 bg-slate-950/50">
+        <div className="relative select-none" style={{ width: contentWidth }}>
+          <div className="relative h-5 border-b border-slate-800 cursor-pointer" onClick={seekFromEvent}>
+            {Array.from({ length: Math.floor(totalSeconds / rulerStep) + 1 }, (_, i) => (
+              <span
+                key={i}
+                className="absolute top-0 h-full border-l border-slate-700 pl-1 text-[9px] text-slate-500 font-mono"
+                style={{ left: i * rulerStep * pps }}
+              >
+                {formatClock(i * rulerStep)}
+              </span>
+            ))}
+          </div>
+
+          <div className="relative cursor-pointer" style={{ height: SOURCE_TRACK_HEIGHT }} onClick={seekFromEvent}>
+            <canvas ref={canvasRef} className="absolute left-0 top-0 h-full" />
+          </div>
+
+          <div className="relative h-8 border-t border-slate-800">
+            {segments.map(seg => (
+              <button
+                key={seg.id}
+                title={seg.text}
+                onClick={() => onAddSegment(seg)}
+                className={`absolute top-1 bottom-1 rounded-sm border text-[9px] truncate px-1 text-left transition-colors ${
+                  seg.isRedundant
+                    ? 'bg-slate-800/40 border-slate-700/50 text-slate-600'
+                    : 'bg-indigo-500/20 border-indigo-500/40 text-indigo-200 hover:bg-indigo-500/40'
+                }`}
+                style={{ left: seg.startTime * pps, width: Math.max(2, (seg.endTime - seg.startTime) * pps) }}
+              >
+                {seg.text}
+              </button>
+            ))}
+          </div>
+
+          <Playhead videoRef={videoRef} toX={time => time * pps} className="top-5" height={SOURCE_TRACK_HEIGHT + 32} />
+
+          <div className="relative h-12 border-t border-slate-800 bg-slate-900/60">
+            {layout.items.map(item => item.kind === 'card' && (
+              <div
+                key={item.position}
+                className="absolute top-1 bottom-1 rounded-md border border-slate-600 bg-slate-700/40 flex items-center px-2 text-[10px] text-slate-300 truncate"
+                style={{ left: item.start * pps, width: Math.max(4, item.duration * pps) }}
+              >
+                {item.position === 'intro' ? '片头' : '片尾'}{item.card.title && `：${item.card.title}`}
+              </div>
+            ))}
+            {displayClips.map((clip, i) => (
+              <div
+                key={`${clip.id}-${i}`}
+                draggable={!trim}
+                onDragStart={(e) => {
+                  if (trim) return e.preventDefault();
+                  setDragIndex(i);
+                }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) onMoveClip(dragIndex, i);
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                onClick={() => onSeek(clip.startTime)}
+                title={`${clip.text}\n${clip.startTime.toFixed(2)}s - ${clip.endTime.toFixed(2)}s`}
+                className={`group absolute top-1 bottom-1 rounded-md border bg-emerald-500/20 border-emerald-500/40 flex items-center overflow-hidden cursor-grab ${
+                  dragIndex === i ? 'opacity-40' : ''
+                }`}
+                style={{ left: offsets[i] * pps, width: Math.max(4, (clip.endTime - clip.startTime) * pps) }}
+              >
+                <div
+                  onPointerDown={(e) => handleTrimStart(e, i, 'start')}
+                  className="absolute left-0 top-0 bottom-0 w-1.5 bg-emerald-400/60 cursor-ew-resize"
+                />
+                <GripVertical className="w-3 h-3 text-emerald-300/60 shrink-0 ml-1.5" />
+                <span className="text-[10px] text-emerald-100 truncate flex-grow">{clip.text}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRemoveClip(i); }}
+                  className="opacity-0 group-hover:opacity-100 text-emerald-200 hover:text-red-400 mr-2 shrink-0"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+                <div
+                  onPointerDown={(e) => handleTrimStart(e, i, 'end')}
+                  className="absolute right-0 top-0 bottom-0 w-1.5 bg-emerald-400/60 cursor-ew-resize"
+                />
+              </div>
+            ))}
+            <Playhead
+              videoRef={videoRef}
+              toX={time => {
+                const sequenceTime = sourceToSequenceTime(displayClips, time, offsets);
+                return sequenceTime === null ? null : sequenceTime * pps;
+              }}
+              className="top-0 bottom-0"
+            />
+            {displayClips.length === 0 && (
+              <div className="h-full flex items-center justify-center text-slate-600 text-xs italic">
+                点击上方片段或右侧列表，将片段加入成片轨道
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
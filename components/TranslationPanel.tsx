@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Languages, Loader2, RefreshCw, X } from 'lucide-react';
+import { CaptionMode, CaptionSettings } from '../types';
+import { CAPTION_MODE_LABELS, SOURCE_LANGUAGE, TRANSLATION_LANGUAGES, languageLabel } from '../utils/translation';
+
+interface TranslationPanelProps {
+  languages: string[];
+  captions: CaptionSettings;
+  canTranslate: boolean;
+  // 正在翻译的语言与进度提示
+  translating: { language: string; message: string } | null;
+  onTranslate: (language: string) => void;
+  onRemoveLanguage: (language: string) => void;
+  onChangeCaptions: (captions: CaptionSettings) => void;
+}
+
+const selectClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className="text-[11px] text-slate-500">{label}</span>
+    {children}
+  </label>
+);
+
+const TranslationPanel: React.FC<TranslationPanelProps> = ({
+  languages,
+  captions,
+  canTranslate,
+  translating,
+  onTranslate,
+  onRemoveLanguage,
+  onChangeCaptions
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const available = Object.keys(TRANSLATION_LANGUAGES).filter(code => !languages.includes(code));
+  const [target, setTarget] = useState(available[0] ?? '');
+
+  const update = (patch: Partial<CaptionSettings>) => onChangeCaptions({ ...captions, ...patch });
+  const tracks = [SOURCE_LANGUAGE, ...languages];
+  const selectedTarget = available.includes(target) ? target : available[0] ?? '';
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 shadow-xl">
+      <button onClick={() => setExpanded(v => !v)} className="w-full flex items-center gap-2 text-left">
+        <Languages className="text-indigo-400 w-5 h-5" />
+        <h2 className="text-lg font-semibold text-slate-200">翻译与双语字幕</h2>
+        <span className="text-xs text-slate-500 flex-grow">
+          {captions.mode === 'bilingual'
+            ? `${languageLabel(captions.primaryLanguage)} + ${languageLabel(captions.secondaryLanguage)}`
+            : languageLabel(captions.primaryLanguage)}
+        </span>
+        {translating && <Loader2 className="w-4 h-4 text-indigo-400 animate-spin" />}
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div className="flex items-end gap-2">
+            <Field label="翻译为">
+              <select value={selectedTarget} onChange={(e) => setTarget(e.target.value)} disabled={available.length === 0} className={selectClass}>
+                {available.map(code => <option key={code} value={code}>{TRANSLATION_LANGUAGES[code]}</option>)}
+              </select>
+            </Field>
+            <button
+              onClick={() => onTranslate(selectedTarget)}
+              disabled={!canTranslate || !selectedTarget || !!translating}
+              title={canTranslate ? undefined : '当前分析服务不支持翻译，请切换到 Gemini'}
+              className="shrink-0 text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white px-3 py-1.5 rounded-md font-bold transition-colors"
+            >
+              翻译
+            </button>
+          </div>
+          {translating && <p className="text-[11px] text-indigo-300">{translating.message}</p>}
+
+          {languages.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {languages.map(code => (
+                <span key={code} className="flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-slate-700 text-slate-300">
+                  {languageLabel(code)}
+                  <button
+                    onClick={() => onTranslate(code)}
+                    disabled={!canTranslate || !!translating}
+                    title="重新翻译"
+                    className="text-slate-500 hover:text-indigo-300 disabled:opacity-40"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onRemoveLanguage(code)} title="删除译文" className="text-slate-500 hover:text-red-400">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <Field label="烧录字幕">
+              <select value={captions.mode} onChange={(e) => update({ mode: e.target.value as CaptionMode })} className={selectClass}>
+                {(Object.keys(CAPTION_MODE_LABELS) as CaptionMode[]).map(mode => (
+                  <option key={mode} value={mode}>{CAPTION_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label={captions.mode === 'bilingual' ? '第一行' : '语言'}>
+              <select value={captions.primaryLanguage} onChange={(e) => update({ primaryLanguage: e.target.value })} className={selectClass}>
+                {tracks.map(code => <option key={code} value={code}>{languageLabel(code)}</option>)}
+              </select>
+            </Field>
+            {captions.mode === 'bilingual' && (
+              <Field label="第二行">
+                <select value={captions.secondaryLanguage} onChange={(e) => update({ secondaryLanguage: e.target.value })} className={selectClass}>
+                  {tracks.map(code => <option key={code} value={code}>{languageLabel(code)}</option>)}
+                </select>
+              </Field>
+            )}
+          </div>
+          <p className="text-[11px] text-slate-500">
+            导出字幕文件时每种语言各生成一个文件；缺少译文的字幕在单语烧录时显示原文。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationPanel;
@@ -0,0 +1,16 @@
+import { expect, test } from '@playwright/test';
+import type { RenderSampleResult } from './renderHarness';
+
+// 通过开发服务器按路径加载，Vite 会在浏览器中解析其中的依赖
+const HARNESS_URL = '/e2e/renderHarness.ts';
+
+test('renders a composed sample clip with the expected frame count and duration', async ({ page }) => {
+  await page.goto('/');
+  const result = await page.evaluate(async (url) => {
+    const harness = await import(/* @vite-ignore */ url);
+    return harness.renderSample() as Promise<RenderSampleResult>;
+  }, HARNESS_URL);
+
+  expect(result.frames).toBe(result.expectedFrames);
+  expect(Math.abs(result.duration - result.expectedDuration)).toBeLessThanOrEqual(1 / result.frameRate + 1e-3);
+});
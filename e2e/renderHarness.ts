@@ -0,0 +1,108 @@
+/**
+ * 浏览器端渲染测试的辅助模块，由 Vite 开发服务器提供给 Playwright 页面动态加载。
+ * 样片在页面内用 Canvas 与正弦波现场生成，仓库中不存放二进制视频。
+ */
+import {
+  ALL_FORMATS,
+  AudioSample,
+  AudioSampleSource,
+  BlobSource,
+  BufferTarget,
+  CanvasSource,
+  Input,
+  Output,
+  WebMOutputFormat
+} from "mediabunny";
+import { CompositionSettings, SubtitleSegment } from "../types";
+import { renderWithWebCodecs } from "../services/renderEngine";
+import { DEFAULT_COMPOSITION_SETTINGS, DEFAULT_TITLE_CARD, buildComposition } from "../utils/composition";
+import { DEFAULT_EXPORT_SETTINGS } from "../utils/exportSettings";
+import { DEFAULT_SUBTITLE_STYLE } from "../utils/subtitleStyle";
+import { DEFAULT_CAPTION_SETTINGS } from "../utils/translation";
+
+const SAMPLE = { width: 320, height: 240, frameRate: 30, duration: 3, sampleRate: 48000 };
+
+export interface RenderSampleResult {
+  frameRate: number;
+  frames: number;
+  duration: number;
+  expectedFrames: number;
+  expectedDuration: number;
+}
+
+const segment = (id: string, startTime: number, endTime: number): SubtitleSegment => ({
+  id,
+  startTime,
+  endTime,
+  text: `片段 ${id}`,
+  isRedundant: false,
+  confidence: 1
+});
+
+// 逐帧变色并写上帧号的 VP8 画面，配 440Hz 单声道正弦波
+const createSampleClip = async (): Promise<Blob> => {
+  const { width, height, frameRate, duration, sampleRate } = SAMPLE;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const target = new BufferTarget();
+  const output = new Output({ format: new WebMOutputFormat(), target });
+  const video = new CanvasSource(canvas, { codec: 'vp8', bitrate: 500_000 });
+  const audio = new AudioSampleSource({ codec: 'opus', bitrate: 64_000 });
+  output.addVideoTrack(video, { frameRate });
+  output.addAudioTrack(audio);
+  await output.start();
+
+  for (let i = 0; i < duration * frameRate; i++) {
+    ctx.fillStyle = `hsl(${(i * 4) % 360}, 70%, 45%)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#fff';
+    ctx.font = '48px sans-serif';
+    ctx.fillText(String(i), 20, 80);
+    await video.add(i / frameRate, 1 / frameRate);
+  }
+
+  const data = new Float32Array(duration * sampleRate);
+  for (let i = 0; i < data.length; i++) data[i] = 0.3 * Math.sin((2 * Math.PI * 440 * i) / sampleRate);
+  const sample = new AudioSample({ data, format: 'f32-planar', numberOfChannels: 1, sampleRate, timestamp: 0 });
+  await audio.add(sample);
+  sample.close();
+
+  await output.finalize();
+  return new Blob([target.buffer!], { type: 'video/webm' });
+};
+
+/**
+ * 生成样片，按片头卡 + 两个交叉溶解的片段渲染，再读回成片的帧数与时长，
+ * 同时给出时间轴计算的预期值供测试比较。
+ */
+export const renderSample = async (): Promise<RenderSampleResult> => {
+  const clip = await createSampleClip();
+  const segs = [segment('a', 0.2, 1), segment('b', 1.5, 2.5)];
+  const settings = { ...DEFAULT_EXPORT_SETTINGS, frameRate: SAMPLE.frameRate };
+  const composition: CompositionSettings = {
+    ...DEFAULT_COMPOSITION_SETTINGS,
+    transition: { kind: 'crossfade', duration: 0.3 },
+    intro: { ...DEFAULT_TITLE_CARD, enabled: true, title: '渲染测试', duration: 1 }
+  };
+
+  const rendered = await renderWithWebCodecs(clip, segs, {
+    style: DEFAULT_SUBTITLE_STYLE,
+    captions: DEFAULT_CAPTION_SETTINGS,
+    composition,
+    music: null,
+    settings
+  });
+
+  const input = new Input({ source: new BlobSource(rendered), formats: ALL_FORMATS });
+  const track = await input.getPrimaryVideoTrack();
+  if (!track) throw new Error("成片中没有视频轨道");
+  const stats = await track.computePacketStats();
+  const layout = buildComposition(segs, composition, settings.frameRate);
+  return {
+    frameRate: settings.frameRate,
+    frames: stats.packetCount,
+    duration: await track.computeDuration(),
+    expectedFrames: layout.totalFrames,
+    expectedDuration: layout.duration
+  };
+};
@@ -0,0 +1,18 @@
+import { defineConfig, devices } from '@playwright/test';
+
+const PORT = 4173;
+
+// 浏览器端渲染测试：需要支持 WebCodecs 的 Chromium，首次运行前执行 npx playwright install chromium
+export default defineConfig({
+  testDir: './e2e',
+  timeout: 120_000,
+  use: {
+    ...devices['Desktop Chrome'],
+    baseURL: `http://localhost:${PORT}`
+  },
+  webServer: {
+    command: `npx vite --port ${PORT} --strictPort`,
+    url: `http://localhost:${PORT}`,
+    reuseExistingServer: !process.env.CI
+  }
+});
@@ -0,0 +1,66 @@
+import { AnalysisIssue, SilenceSettings, SubtitleSegment } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { analyzeSilence } from "./audioAnalysis";
+import { recordAnalysis } from "./fixtureProvider";
+import { ChunkProgress } from "../utils/chunking";
+import { probeVideoDuration } from "../utils/media";
+import { sortByStart } from "../utils/segmentEditing";
+import { repairSegments } from "../utils/segmentValidation";
+import { refineSegmentsWithSilence } from "../utils/silence";
+
+export interface VideoAnalysis {
+  segments: SubtitleSegment[];
+  issues: AnalysisIssue[];
+  duration: number;
+}
+
+/**
+ * 解码音轨并检测静音，返回对片段做校准的函数。解码耗时较长，
+ * 调用方可以把校准应用到解码完成时的最新片段上，而不是开始时的快照。
+ */
+export const prepareAudioRefinement = async (file: File, silence: SilenceSettings) => {
+  const { silences } = await analyzeSilence(file, silence);
+  return (segs: SubtitleSegment[]) => refineSegmentsWithSilence(sortByStart(segs), silences, silence.snapRange);
+};
+
+export const refineWithAudio = async (file: File, segs: SubtitleSegment[], silence: SilenceSettings) =>
+  (await prepareAudioRefinement(file, silence))(segs);
+
+/**
+ * 单个视频的完整分析流程：调用分析后端、校验修复结果、留存在线结果，
+ * 并按设置用本地音频校准片段边界。编辑界面与批量队列共用。
+ */
+export const analyzeVideo = async (
+  file: File,
+  provider: AnalysisProvider,
+  silence: SilenceSettings,
+  onProgress: ChunkProgress
+): Promise<VideoAnalysis> => {
+  const result = await provider.analyze(file, onProgress);
+
+  // 任何后端的输出都先校验修复，再进入界面状态
+  const duration = await probeVideoDuration(file).catch(() => 0);
+  const repaired = repairSegments(result.segments, duration);
+  const issues = [...result.issues, ...repaired.issues];
+
+  // 在线分析的结果留存一份，供离线回放复用
+  const online = provider.id !== 'fixture' && provider.id !== 'silence';
+  if (online && repaired.segments.length > 0) {
+    recordAnalysis(file, repaired.segments);
+  }
+
+  let segments = repaired.segments;
+  if (provider.id !== 'silence' && silence.refineAfterAnalysis && segments.length > 0) {
+    onProgress("正在根据音频校准片段边界...");
+    try {
+      const refined = await refineWithAudio(file, segments, silence);
+      segments = refined.segments;
+      issues.push(...refined.issues);
+    } catch (err) {
+      // 音频校准只是增强，失败时保留模型给出的边界
+      console.warn("音频校准失败", err);
+    }
+  }
+
+  return { segments, issues, duration };
+};
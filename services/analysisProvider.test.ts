@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ANALYSIS_SETTINGS, loadAnalysisSettings, saveAnalysisSettings } from './analysisProvider';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+const withCredentials = (rememberCredentials: boolean) => ({
+  ...DEFAULT_ANALYSIS_SETTINGS,
+  gemini: { ...DEFAULT_ANALYSIS_SETTINGS.gemini, apiKey: 'secret-key' },
+  http: { ...DEFAULT_ANALYSIS_SETTINGS.http, authToken: 'secret-token' },
+  rememberCredentials
+});
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('saveAnalysisSettings', () => {
+  it('does not write credentials to storage by default', () => {
+    saveAnalysisSettings(withCredentials(false));
+    expect(localStorage.getItem('novaclip.analysisSettings')).not.toContain('secret');
+    expect(loadAnalysisSettings()).toMatchObject({ gemini: { apiKey: '' }, http: { authToken: '' } });
+  });
+
+  it('persists credentials when the user opts in', () => {
+    saveAnalysisSettings(withCredentials(true));
+    expect(loadAnalysisSettings()).toMatchObject({
+      gemini: { apiKey: 'secret-key' },
+      http: { authToken: 'secret-token' },
+      rememberCredentials: true
+    });
+  });
+});
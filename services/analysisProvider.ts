@@ -0,0 +1,93 @@
+import { AnalysisProviderId, AnalysisResult, AnalysisSettings, SubtitleSegment } from "../types";
+import { DEFAULT_GEMINI_API_KEY, DEFAULT_GEMINI_MODEL, createGeminiProvider } from "./geminiService";
+import { createFixtureProvider } from "./fixtureProvider";
+import { createHttpProvider } from "./httpProvider";
+import { createSilenceProvider } from "./silenceProvider";
+import { ChunkProgress } from "../utils/chunking";
+
+/**
+ * 转录与语义分析后端的统一接口。App 只依赖该接口，不直接调用具体服务。
+ * 返回的片段尚未校验，由调用方统一经过 repairSegments 修复。
+ */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  analyze: (videoFile: File, onProgress: ChunkProgress) => Promise<AnalysisResult>;
+  // 将字幕翻译为目标语言，返回 id → 译文；不支持翻译的服务不提供该方法
+  translate?: (segments: SubtitleSegment[], language: string, onProgress: ChunkProgress) => Promise<Record<string, string>>;
+}
+
+export const ANALYSIS_PROVIDER_LABELS: Record<AnalysisProviderId, string> = {
+  gemini: 'Gemini',
+  fixture: '录制回放（离线）',
+  http: '本地 HTTP 服务',
+  silence: '本地静音检测（无需 AI）'
+};
+
+const SETTINGS_KEY = 'novaclip.analysisSettings';
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  providerId: 'gemini',
+  gemini: {
+    apiKey: '',
+    model: DEFAULT_GEMINI_MODEL
+  },
+  http: {
+    endpoint: 'http://127.0.0.1:8080/inference',
+    language: 'auto',
+    authToken: ''
+  },
+  fixture: {
+    fallbackJson: ''
+  },
+  silence: {
+    thresholdDb: -40,
+    minSilence: 0.4,
+    snapRange: 0.3,
+    refineAfterAnalysis: true
+  },
+  rememberCredentials: false
+};
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_ANALYSIS_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<AnalysisSettings>;
+    return {
+      providerId: saved.providerId ?? DEFAULT_ANALYSIS_SETTINGS.providerId,
+      gemini: { ...DEFAULT_ANALYSIS_SETTINGS.gemini, ...saved.gemini },
+      http: { ...DEFAULT_ANALYSIS_SETTINGS.http, ...saved.http },
+      fixture: { ...DEFAULT_ANALYSIS_SETTINGS.fixture, ...saved.fixture },
+      silence: { ...DEFAULT_ANALYSIS_SETTINGS.silence, ...saved.silence },
+      rememberCredentials: saved.rememberCredentials ?? DEFAULT_ANALYSIS_SETTINGS.rememberCredentials
+    };
+  } catch {
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+// localStorage 以明文保存，未勾选记住时不写入密钥
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  const persisted = settings.rememberCredentials
+    ? settings
+    : { ...settings, gemini: { ...settings.gemini, apiKey: '' }, http: { ...settings.http, authToken: '' } };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(persisted));
+};
+
+export const createAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  switch (settings.providerId) {
+    case 'gemini':
+      // 未在界面中填写 Key 时回退到构建时注入的环境变量
+      return createGeminiProvider({
+        ...settings.gemini,
+        apiKey: settings.gemini.apiKey || DEFAULT_GEMINI_API_KEY
+      });
+    case 'fixture':
+      return createFixtureProvider(settings.fixture);
+    case 'http':
+      return createHttpProvider(settings.http);
+    case 'silence':
+      return createSilenceProvider(settings.silence);
+  }
+};
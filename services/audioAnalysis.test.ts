@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { analyzeSilence } from './audioAnalysis';
+
+// 1 秒语音 + 1 秒静音 + 1 秒语音，采样率 16kHz
+const RATE = 16000;
+const rendered = Float32Array.from({ length: RATE * 3 }, (_, i) => (i >= RATE && i < RATE * 2 ? 0 : 0.5));
+
+// 最简的 OfflineAudioContext：解码结果直接就是混音后的单声道
+class FakeOfflineAudioContext {
+  decodeAudioData = vi.fn(async () => ({ duration: 3 }));
+  createBufferSource = () => ({ buffer: null, connect: () => {}, start: () => {} });
+  destination = {};
+  startRendering = async () => ({ sampleRate: RATE, duration: 3, getChannelData: () => rendered });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('analyzeSilence', () => {
+  it('falls back to Web Audio decoding when the track cannot be stream-decoded', async () => {
+    vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+    const file = new Blob([new Uint8Array(64)], { type: 'video/mp4' });
+    const { silences, duration } = await analyzeSilence(file, { thresholdDb: -40, minSilence: 0.5 });
+    expect(duration).toBe(3);
+    expect(silences).toHaveLength(1);
+    expect(silences[0].start).toBeCloseTo(1);
+    expect(silences[0].end).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,96 @@
+import { ALL_FORMATS, AudioSampleSink, BlobSource, Input } from "mediabunny";
+import { SilenceSettings } from "../types";
+import { TimeRange, createRmsEnvelope, detectSilence } from "../utils/silence";
+
+// Web Audio 回退路径只需语音频段，降采样到 16kHz 单声道以减少内存占用
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+const UNDECODABLE_MESSAGE = '无法解码视频的音轨，可能不包含音频或格式不受支持';
+
+export interface SilenceAnalysis {
+  silences: TimeRange[];
+  duration: number;
+}
+
+export interface AudioEnvelope {
+  envelope: Float32Array;
+  duration: number;
+}
+
+/**
+ * 用 Web Audio 整段解码视频的音轨，并经 OfflineAudioContext 混为单声道、重采样。
+ * 不依赖 WebCodecs，作为流式解码不可用时的回退。
+ */
+export const decodeMonoAudio = async (file: Blob, sampleRate = ANALYSIS_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const data = await file.arrayBuffer();
+  const decoder = new OfflineAudioContext(1, 1, sampleRate);
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decoder.decodeAudioData(data);
+  } catch {
+    throw new Error(UNDECODABLE_MESSAGE);
+  }
+
+  const length = Math.max(1, Math.ceil(decoded.duration * sampleRate));
+  const context = new OfflineAudioContext(1, length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+const decodedEnvelope = async (file: Blob): Promise<AudioEnvelope> => {
+  const buffer = await decodeMonoAudio(file);
+  const envelope = createRmsEnvelope(buffer.sampleRate);
+  envelope.push(buffer.getChannelData(0), 0);
+  return { envelope: envelope.finish(), duration: buffer.duration };
+};
+
+/**
+ * 计算音轨逐帧的 RMS 电平。优先用 WebCodecs 流式解码，各声道混为单声道后逐块累加，
+ * 只保留每帧的电平，内存占用与视频长度基本无关；浏览器无法解码该音轨
+ * （如不支持 WebCodecs 的 AudioDecoder）时回退到 Web Audio 整段解码。
+ */
+export const computeAudioEnvelope = async (file: Blob): Promise<AudioEnvelope> => {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  try {
+    // 容器无法解析或没有找到音轨时同样交给 Web Audio，由它给出最终的解码结果
+    const track = await input.getPrimaryAudioTrack().catch(() => null);
+    if (!track || typeof AudioDecoder === 'undefined' || !(await track.canDecode())) {
+      return decodedEnvelope(file);
+    }
+
+    const envelope = createRmsEnvelope(track.sampleRate);
+    let mono = new Float32Array(0);
+    let channel = new Float32Array(0);
+    let duration = 0;
+
+    for await (const sample of new AudioSampleSink(track).samples()) {
+      const frames = sample.numberOfFrames;
+      if (mono.length < frames) {
+        mono = new Float32Array(frames);
+        channel = new Float32Array(frames);
+      }
+      mono.fill(0, 0, frames);
+      for (let c = 0; c < sample.numberOfChannels; c++) {
+        sample.copyTo(channel, { planeIndex: c, format: 'f32-planar' });
+        for (let i = 0; i < frames; i++) mono[i] += channel[i] / sample.numberOfChannels;
+      }
+      envelope.push(mono.subarray(0, frames), Math.round(sample.timestamp * track.sampleRate));
+      duration = Math.max(duration, sample.timestamp + sample.duration);
+      sample.close();
+    }
+    return { envelope: envelope.finish(), duration };
+  } finally {
+    input.dispose();
+  }
+};
+
+export const analyzeSilence = async (
+  file: Blob,
+  options: Pick<SilenceSettings, 'thresholdDb' | 'minSilence'>
+): Promise<SilenceAnalysis> => {
+  const { envelope, duration } = await computeAudioEnvelope(file);
+  return { silences: detectSilence(envelope, options), duration };
+};
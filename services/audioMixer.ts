@@ -0,0 +1,209 @@
+import { AudioSample, AudioSampleSink, AudioSampleSource } from "mediabunny";
+import { BackgroundMusicSettings } from "../types";
+import { CompositionItem, CompositionLayout, itemGain, musicGain, speechRanges } from "../utils/composition";
+
+// 每次混音的块长（帧）；只在音频落后画面较多时才补混，保持两路大致交错
+const MIX_BLOCK_FRAMES = 8192;
+const MIX_LOOKBEHIND = 0.5;
+
+export interface PcmReader {
+  read: (frames: number) => Promise<Float32Array[]>;
+  dispose: () => void;
+}
+
+interface PcmReaderOptions {
+  start?: number;
+  end?: number;
+  channels: number;
+  sampleRate: number;
+  loop?: boolean;
+}
+
+const concat = (a: Float32Array, b: Float32Array) => {
+  const out = new Float32Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+};
+
+/**
+ * 顺序读取音轨 [start, end) 内的 PCM，按输出声道数复制或截取声道，
+ * 采样率不同时线性插值重采样。loop 为 true 时读到结尾后从头继续（用于背景音乐）。
+ * 读完后不足的部分补零。
+ */
+export const createPcmReader = (sink: AudioSampleSink, options: PcmReaderOptions): PcmReader => {
+  const { start = 0, end, channels, sampleRate, loop = false } = options;
+  let iterator: AsyncGenerator<AudioSample, void, unknown> | null = null;
+  let buffer = Array.from({ length: channels }, () => new Float32Array(0));
+  // buffer 中的读取位置（源采样帧，可为小数）与每输出一帧前进的源帧数
+  let position = 0;
+  let ratio = 1;
+  let producedThisPass = false;
+  let exhausted = false;
+
+  const pull = async (): Promise<boolean> => {
+    while (!exhausted) {
+      iterator ??= sink.samples(start, end);
+      const result = await iterator.next();
+      if (result.done === true) {
+        if (loop && producedThisPass) {
+          iterator = null;
+          producedThisPass = false;
+          continue;
+        }
+        exhausted = true;
+        return false;
+      }
+
+      const sample = result.value;
+      try {
+        ratio = sample.sampleRate / sampleRate;
+        const skip = Math.max(0, Math.round((start - sample.timestamp) * sample.sampleRate));
+        const limit = end === undefined
+          ? sample.numberOfFrames
+          : Math.min(sample.numberOfFrames, Math.round((end - sample.timestamp) * sample.sampleRate));
+        const count = limit - skip;
+        if (count <= 0) continue;
+
+        const consumed = Math.floor(position);
+        buffer = buffer.map((old, c) => {
+          const plane = new Float32Array(count);
+          sample.copyTo(plane, { planeIndex: c % sample.numberOfChannels, format: 'f32-planar', frameOffset: skip, frameCount: count });
+          return concat(old.subarray(consumed), plane);
+        });
+        position -= consumed;
+        producedThisPass = true;
+        return true;
+      } finally {
+        sample.close();
+      }
+    }
+    return false;
+  };
+
+  const read = async (frames: number) => {
+    const out = Array.from({ length: channels }, () => new Float32Array(frames));
+    for (let i = 0; i < frames; i++) {
+      let index = Math.floor(position);
+      while (index + 1 >= buffer[0].length && await pull()) index = Math.floor(position);
+      if (index >= buffer[0].length) break;
+      const frac = position - index;
+      for (let c = 0; c < channels; c++) {
+        const plane = buffer[c];
+        const a = plane[index];
+        const b = index + 1 < plane.length ? plane[index + 1] : a;
+        out[c][i] = a + (b - a) * frac;
+      }
+      position += ratio;
+    }
+    return out;
+  };
+
+  return {
+    read,
+    dispose: () => {
+      exhausted = true;
+      iterator?.return();
+      iterator = null;
+    }
+  };
+};
+
+interface MixerOptions {
+  layout: CompositionLayout;
+  dialogue: AudioSampleSink | null;
+  music: AudioSampleSink | null;
+  musicSettings: BackgroundMusicSettings;
+  audioFade: number;
+  channels: number;
+  sampleRate: number;
+  target: AudioSampleSource;
+}
+
+/**
+ * 按成片时间轴混合原声与背景音乐：每个片段按转场包络淡入淡出，
+ * 交叉溶解处两段原声重叠相加，背景音乐循环播放并在人声处降低音量。
+ */
+export const createCompositionMixer = (options: MixerOptions) => {
+  const { layout, dialogue, music, musicSettings, audioFade, channels, sampleRate, target } = options;
+  const ranges = speechRanges(layout);
+  const totalFrames = Math.round(layout.duration * sampleRate);
+  const readers = new Map<CompositionItem, PcmReader>();
+  const musicReader = music ? createPcmReader(music, { channels, sampleRate, loop: true }) : null;
+  let cursor = 0;
+
+  const mixBlock = async (from: number, count: number) => {
+    const mix = Array.from({ length: channels }, () => new Float32Array(count));
+    const blockEnd = from + count;
+
+    if (dialogue) {
+      for (const item of layout.items) {
+        if (item.kind !== 'clip') continue;
+        const itemStart = Math.round(item.start * sampleRate);
+        const itemEnd = Math.round((item.start + item.duration) * sampleRate);
+        const a = Math.max(from, itemStart);
+        const b = Math.min(blockEnd, itemEnd);
+        if (b <= a) continue;
+
+        let reader = readers.get(item);
+        if (!reader) {
+          reader = createPcmReader(dialogue, {
+            start: item.clip.startTime,
+            end: item.clip.startTime + item.duration,
+            channels,
+            sampleRate
+          });
+          readers.set(item, reader);
+        }
+        const pcm = await reader.read(b - a);
+        for (let i = 0; i < b - a; i++) {
+          const gain = itemGain(item, (a + i) / sampleRate, audioFade);
+          for (let c = 0; c < channels; c++) mix[c][a - from + i] += pcm[c][i] * gain;
+        }
+        if (b >= itemEnd) {
+          reader.dispose();
+          readers.delete(item);
+        }
+      }
+    }
+
+    if (musicReader) {
+      const pcm = await musicReader.read(count);
+      for (let i = 0; i < count; i++) {
+        const gain = musicGain((from + i) / sampleRate, layout.duration, ranges, musicSettings);
+        for (let c = 0; c < channels; c++) mix[c][i] += pcm[c][i] * gain;
+      }
+    }
+
+    const data = new Float32Array(count * channels);
+    mix.forEach((plane, c) => {
+      for (let i = 0; i < count; i++) plane[i] = Math.max(-1, Math.min(1, plane[i]));
+      data.set(plane, c * count);
+    });
+    const sample = new AudioSample({ data, format: 'f32-planar', numberOfChannels: channels, sampleRate, timestamp: from / sampleRate });
+    await target.add(sample);
+    sample.close();
+  };
+
+  const mixUntil = async (time: number) => {
+    const until = Math.min(totalFrames, Math.round(time * sampleRate));
+    while (cursor < until) {
+      const count = Math.min(MIX_BLOCK_FRAMES, until - cursor);
+      await mixBlock(cursor, count);
+      cursor += count;
+    }
+  };
+
+  return {
+    // 画面推进后调用；音频落后超过 MIX_LOOKBEHIND 才补混到当前时间
+    keepUp: async (time: number) => {
+      if (time - cursor / sampleRate >= MIX_LOOKBEHIND) await mixUntil(time);
+    },
+    finish: () => mixUntil(layout.duration),
+    dispose: () => {
+      readers.forEach(reader => reader.dispose());
+      readers.clear();
+      musicReader?.dispose();
+    }
+  };
+};
@@ -0,0 +1,127 @@
+import { AnalysisSettings, AppStatus, SubtitleSegment } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { analyzeVideo } from "./analysisPipeline";
+import { renderSegments } from "./renderEngine";
+import { saveProject, saveVideoBlob } from "./projectStore";
+import { BatchJob, BatchStepId, failJob, isStepDone, setStepStatus } from "../utils/batchQueue";
+import { RoughCutOptions, buildRoughCut } from "../utils/roughCut";
+import { sortByStart } from "../utils/segmentEditing";
+import { EMPTY_HISTORY, packHistory } from "../utils/history";
+import { PROJECT_SCHEMA_VERSION, createProjectId, fingerprintVideo } from "../utils/projectFile";
+import { formatClock } from "../utils/media";
+
+export interface BatchJobContext {
+  provider: AnalysisProvider;
+  analysisSettings: AnalysisSettings;
+  roughCutOptions: RoughCutOptions;
+  // 以函数形式更新任务，避免并发任务之间互相覆盖
+  update: (update: (job: BatchJob) => BatchJob) => void;
+}
+
+// 渲染逐个进行：离线渲染会占满编解码器，实时录制回退还要独占播放
+let renderSlot: Promise<unknown> = Promise.resolve();
+
+const withRenderSlot = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = renderSlot.then(task, task);
+  renderSlot = run.catch(() => undefined);
+  return run;
+};
+
+// 批量结果存成普通项目，之后可以在项目列表中打开继续精修
+const saveBatchProject = async (job: BatchJob, segments: SubtitleSegment[], clips: SubtitleSegment[], ctx: BatchJobContext) => {
+  const id = createProjectId();
+  const now = Date.now();
+  await saveVideoBlob(id, job.file);
+  await saveProject({
+    version: PROJECT_SCHEMA_VERSION,
+    id,
+    name: job.file.name,
+    createdAt: now,
+    updatedAt: now,
+    video: fingerprintVideo({ name: job.file.name, size: job.file.size, duration: job.duration, url: '', file: job.file }),
+    segments,
+    selectedSegments: clips,
+    style: job.render.style,
+    history: packHistory(EMPTY_HISTORY),
+    captions: job.render.captions,
+    composition: job.render.composition
+  });
+  return id;
+};
+
+/**
+ * 依次执行任务中尚未完成的步骤：分析 → 粗剪 → 渲染。
+ * 重试时传入的任务保留了已完成步骤的结果，只重做失败及之后的步骤。
+ */
+export const runBatchJob = async (job: BatchJob, ctx: BatchJobContext): Promise<void> => {
+  const { update } = ctx;
+  const hasStep = (id: BatchStepId) => job.steps.some(step => step.id === id);
+  const pending = (id: BatchStepId) => hasStep(id) && !isStepDone(job, id);
+  const begin = (id: BatchStepId, status: AppStatus, message: string) =>
+    update(j => ({ ...setStepStatus(j, id, 'loading'), status, message, progress: null }));
+
+  let { segments, clips, duration, projectId } = job;
+  // 同步离开排队状态，调度器不会重复启动同一任务
+  update(j => ({ ...j, status: AppStatus.UPLOADING, message: "读取视频..." }));
+
+  try {
+    if (pending('analyze')) {
+      begin('analyze', AppStatus.ANALYZING, "准备分析...");
+      const result = await analyzeVideo(job.file, ctx.provider, ctx.analysisSettings.silence, (message, fraction) =>
+        update(j => ({ ...j, message, progress: fraction ?? j.progress }))
+      );
+      if (result.segments.length === 0) {
+        throw new Error(`分析未得到可用片段${result.issues.length > 0 ? `：${result.issues[0].message}` : ''}`);
+      }
+      ({ segments, duration } = result);
+      update(j => ({ ...setStepStatus(j, 'analyze', 'completed'), segments, duration }));
+    }
+
+    if (pending('cut')) {
+      begin('cut', AppStatus.ANALYZING, "正在按规则粗剪...");
+      clips = buildRoughCut(segments, duration, ctx.roughCutOptions).clips;
+      update(j => ({ ...setStepStatus(j, 'cut', 'completed'), clips }));
+    }
+
+    if (!projectId) {
+      projectId = await saveBatchProject({ ...job, duration }, segments, clips, ctx);
+      const saved = projectId;
+      update(j => ({ ...j, projectId: saved }));
+    }
+
+    if (pending('render')) {
+      // 未开启粗剪时渲染全部非冗余片段
+      const renderClips = clips.length > 0 ? clips : sortByStart(segments.filter(s => !s.isRedundant));
+      if (renderClips.length === 0) throw new Error("粗剪后没有可渲染的片段");
+
+      begin('render', AppStatus.READY, "等待其他任务渲染完成...");
+      const output = await withRenderSlot(async () => {
+        update(j => ({ ...j, status: AppStatus.GENERATING, message: "准备渲染..." }));
+        const url = URL.createObjectURL(job.file);
+        try {
+          return await renderSegments(job.file, url, renderClips, {
+            style: job.render.style,
+            captions: job.render.captions,
+            composition: job.render.composition,
+            music: job.render.music,
+            settings: job.render.exportSettings,
+            onMessage: message => update(j => ({ ...j, message })),
+            onProgress: p => update(j => ({
+              ...j,
+              progress: p.percent / 100,
+              message: `片段 ${p.segmentIndex + 1}/${p.segmentCount}${p.etaSeconds != null ? ` · 剩余约 ${formatClock(p.etaSeconds)}` : ''}`
+            }))
+          });
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      });
+      update(j => ({ ...setStepStatus(j, 'render', 'completed'), output }));
+    }
+
+    update(j => ({ ...j, status: AppStatus.COMPLETED, message: '', progress: null }));
+  } catch (err: any) {
+    console.error(err);
+    update(j => failJob(j, err?.message || "处理失败"));
+  }
+};
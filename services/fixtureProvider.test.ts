@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SubtitleSegment } from '../types';
+import { hasRecording, recordAnalysis } from './fixtureProvider';
+
+// 按字符数模拟 localStorage 配额
+const createStorage = (quota = Infinity) => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > quota) throw new DOMException('quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+const video = (name: string) => new File([new Uint8Array(4)], name, { type: 'video/mp4' });
+
+const segments = (text: string): SubtitleSegment[] => [
+  { id: '1', startTime: 0, endTime: 1, text, isRedundant: false, confidence: 1 }
+];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('recordAnalysis', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  it('keeps only the most recent recordings', () => {
+    for (let i = 0; i < 25; i++) recordAnalysis(video(`v${i}.mp4`), segments(`第 ${i} 条`));
+    expect(hasRecording(video('v4.mp4'))).toBe(false);
+    expect(hasRecording(video('v5.mp4'))).toBe(true);
+    expect(hasRecording(video('v24.mp4'))).toBe(true);
+  });
+
+  it('treats a re-analyzed video as the newest recording', () => {
+    for (let i = 0; i < 20; i++) recordAnalysis(video(`v${i}.mp4`), segments('x'));
+    recordAnalysis(video('v0.mp4'), segments('again'));
+    recordAnalysis(video('new.mp4'), segments('x'));
+    expect(hasRecording(video('v0.mp4'))).toBe(true);
+    expect(hasRecording(video('v1.mp4'))).toBe(false);
+  });
+
+  it('evicts the oldest recordings when the storage quota is exceeded', () => {
+    vi.stubGlobal('localStorage', createStorage(400));
+    const long = 'x'.repeat(100);
+    for (let i = 0; i < 5; i++) recordAnalysis(video(`v${i}.mp4`), segments(long));
+    expect(hasRecording(video('v4.mp4'))).toBe(true);
+    expect(hasRecording(video('v0.mp4'))).toBe(false);
+  });
+
+  it('gives up quietly when even a single recording does not fit', () => {
+    vi.stubGlobal('localStorage', createStorage(10));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    recordAnalysis(video('big.mp4'), segments('too long to fit'));
+    expect(warn).toHaveBeenCalled();
+    expect(hasRecording(video('big.mp4'))).toBe(false);
+  });
+});
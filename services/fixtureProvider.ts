@@ -0,0 +1,64 @@
+import { AnalysisSettings, SubtitleSegment } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { recoverSegmentsJson } from "../utils/segmentValidation";
+
+const RECORDINGS_KEY = 'novaclip.recordings';
+const MAX_RECORDINGS = 20;
+
+type Recordings = Record<string, SubtitleSegment[]>;
+
+// 以文件名和大小作为录制结果的键，与项目指纹保持一致
+const recordingKey = (file: File) => `${file.name}:${file.size}`;
+
+const readRecordings = (): Recordings => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 记录一次真实分析的结果，供回放提供方离线复用。
+ * 只保留最近 MAX_RECORDINGS 个视频的录制；写入超出 localStorage 配额时继续淘汰最旧的。
+ */
+export const recordAnalysis = (file: File, segments: SubtitleSegment[]) => {
+  const recordings = readRecordings();
+  const key = recordingKey(file);
+  // 先删除再写入，使重新分析的视频排到最新
+  delete recordings[key];
+  recordings[key] = segments;
+
+  let keys = Object.keys(recordings).slice(-MAX_RECORDINGS);
+  while (keys.length > 0) {
+    try {
+      localStorage.setItem(RECORDINGS_KEY, JSON.stringify(Object.fromEntries(keys.map(k => [k, recordings[k]]))));
+      return;
+    } catch (error) {
+      if (keys.length === 1) {
+        console.warn("分析结果录制失败", error);
+        return;
+      }
+      keys = keys.slice(1);
+    }
+  }
+};
+
+export const hasRecording = (file: File) => recordingKey(file) in readRecordings();
+
+export const createFixtureProvider = (options: AnalysisSettings['fixture']): AnalysisProvider => ({
+  id: 'fixture',
+  label: '录制回放',
+  analyze: async (videoFile, onProgress) => {
+    onProgress("正在查找录制的分析结果...");
+    const recorded = readRecordings()[recordingKey(videoFile)];
+    if (recorded) return { segments: recorded.map(seg => ({ ...seg })), issues: [] };
+
+    if (options.fallbackJson.trim()) {
+      onProgress("未找到该视频的录制，使用手动载入的回放数据...");
+      const { items, issues } = recoverSegmentsJson(options.fallbackJson);
+      return { segments: items as SubtitleSegment[], issues };
+    }
+    throw new Error(`没有「${videoFile.name}」的录制结果，请先用在线服务分析一次或载入回放数据`);
+  }
+});
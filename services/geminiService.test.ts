@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileState } from '@google/genai';
+import { SubtitleSegment } from '../types';
+import { analyzeVideoWithGemini, translateSegmentsWithGemini } from './geminiService';
+import inlineResponse from './__fixtures__/gemini-analysis-inline.json';
+import windowResponses from './__fixtures__/gemini-analysis-windows.json';
+import translationResponse from './__fixtures__/gemini-translation.json';
+
+// 录制的 Gemini 响应位于 __fixtures__，客户端整体替换为可断言的桩
+const mocks = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  upload: vi.fn(),
+  get: vi.fn(),
+  remove: vi.fn(),
+  probeVideoDuration: vi.fn()
+}));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent: mocks.generateContent };
+    files = { upload: mocks.upload, get: mocks.get, delete: mocks.remove };
+  }
+}));
+
+vi.mock('../utils/media', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/media')>()),
+  probeVideoDuration: mocks.probeVideoDuration
+}));
+
+// Node 中没有 FileReader，内联发送时按浏览器的 data URL 格式生成
+class FakeFileReader {
+  result: string | null = null;
+  error: unknown = null;
+  onload: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    });
+  }
+}
+
+const OPTIONS = { apiKey: 'test-key', model: 'test-model' };
+
+const videoFile = (size = 16) => new File([new Uint8Array(size)], 'talk.mp4', { type: 'video/mp4' });
+
+const seg = (id: string, text: string): SubtitleSegment => ({
+  id,
+  startTime: 0,
+  endTime: 1,
+  text,
+  isRedundant: false,
+  confidence: 1
+});
+
+beforeEach(() => {
+  vi.stubGlobal('FileReader', FakeFileReader);
+  // 解析与重试警告属于预期行为，不输出到测试日志
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  mocks.remove.mockResolvedValue({});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('analyzeVideoWithGemini', () => {
+  it('rejects without an API key before creating a client', async () => {
+    await expect(analyzeVideoWithGemini(videoFile(), () => {}, { apiKey: '', model: '' })).rejects.toThrow('未配置 Gemini API Key');
+    expect(mocks.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('sends short videos inline and parses the fenced JSON response', async () => {
+    mocks.probeVideoDuration.mockResolvedValue(8);
+    mocks.generateContent.mockResolvedValue(inlineResponse);
+
+    const result = await analyzeVideoWithGemini(videoFile(), () => {}, OPTIONS);
+
+    expect(mocks.upload).not.toHaveBeenCalled();
+    const request = mocks.generateContent.mock.calls[0][0];
+    expect(request.model).toBe('test-model');
+    expect(request.contents[0].parts[0].inlineData).toEqual({
+      mimeType: 'video/mp4',
+      data: Buffer.from(new Uint8Array(16)).toString('base64')
+    });
+    expect(result.issues).toEqual([]);
+    expect(result.segments.map(s => s.text)).toEqual([
+      '大家好，欢迎来到本期节目。',
+      '嗯……',
+      '今天我们来聊聊怎么快速剪辑口播视频。'
+    ]);
+  });
+
+  it('retries transient API errors with backoff', async () => {
+    vi.useFakeTimers();
+    mocks.probeVideoDuration.mockResolvedValue(8);
+    mocks.generateContent
+      .mockRejectedValueOnce(Object.assign(new Error('overloaded'), { status: 503 }))
+      .mockResolvedValue(inlineResponse);
+    const onProgress = vi.fn();
+
+    const pending = analyzeVideoWithGemini(videoFile(), onProgress, OPTIONS);
+    await vi.runAllTimersAsync();
+    const result = await pending;
+
+    expect(mocks.generateContent).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenCalledWith('Gemini 服务繁忙，正在进行第 2 次尝试...');
+    expect(result.segments).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    mocks.probeVideoDuration.mockResolvedValue(8);
+    mocks.generateContent.mockRejectedValue(Object.assign(new Error('API key not valid'), { status: 400 }));
+
+    await expect(analyzeVideoWithGemini(videoFile(), () => {}, OPTIONS)).rejects.toThrow('API key not valid');
+    expect(mocks.generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('uploads long videos and merges the per-window responses', async () => {
+    mocks.probeVideoDuration.mockResolvedValue(250);
+    mocks.upload.mockResolvedValue({ name: 'files/talk', uri: 'gs://files/talk', mimeType: 'video/mp4', state: FileState.ACTIVE });
+    windowResponses.forEach(response => mocks.generateContent.mockResolvedValueOnce(response));
+
+    const result = await analyzeVideoWithGemini(videoFile(), () => {}, OPTIONS);
+
+    expect(mocks.generateContent.mock.calls.map(([request]) => request.contents[0].parts[0].videoMetadata)).toEqual([
+      { startOffset: '0s', endOffset: '120s' },
+      { startOffset: '112s', endOffset: '232s' },
+      { startOffset: '224s', endOffset: '250s' }
+    ]);
+    expect(result.segments.map(s => [s.id, s.startTime, s.endTime, s.text])).toEqual([
+      ['w1-1', 0.5, 3.2, '大家好，欢迎来到本期节目。'],
+      ['w1-2', 110, 114, '先说第一部分。'],
+      ['w2-2', 117, 119.5, '嗯……'],
+      ['w2-3', 162, 166, '接下来是第二部分。'],
+      ['w3-1', 226, 230, '最后总结一下。']
+    ]);
+    expect(result.issues.map(issue => issue.kind)).toEqual(['clamped', 'parse']);
+    expect(mocks.remove).toHaveBeenCalledWith({ name: 'files/talk' });
+  });
+
+  it('analyzes the whole upload when the duration cannot be probed', async () => {
+    mocks.probeVideoDuration.mockRejectedValue(new Error('unsupported codec'));
+    mocks.upload.mockResolvedValue({ name: 'files/talk', uri: 'gs://files/talk', mimeType: 'video/x-matroska', state: FileState.ACTIVE });
+    mocks.generateContent.mockResolvedValue(inlineResponse);
+
+    const result = await analyzeVideoWithGemini(videoFile(16 * 1024 * 1024), () => {}, OPTIONS);
+
+    expect(mocks.generateContent).toHaveBeenCalledTimes(1);
+    const [videoPart, promptPart] = mocks.generateContent.mock.calls[0][0].contents[0].parts;
+    expect(videoPart).toEqual({ fileData: { fileUri: 'gs://files/talk', mimeType: 'video/x-matroska' } });
+    expect(promptPart.text).not.toContain('这是原视频');
+    expect(result.segments).toHaveLength(3);
+    expect(mocks.remove).toHaveBeenCalledWith({ name: 'files/talk' });
+  });
+
+  it('deletes the uploaded file when a window keeps failing', async () => {
+    vi.useFakeTimers();
+    mocks.probeVideoDuration.mockResolvedValue(250);
+    mocks.upload.mockResolvedValue({ name: 'files/talk', uri: 'gs://files/talk', mimeType: 'video/mp4', state: FileState.ACTIVE });
+    mocks.generateContent.mockResolvedValue({ text: 'not json' });
+
+    const pending = analyzeVideoWithGemini(videoFile(), () => {}, OPTIONS);
+    const assertion = expect(pending).rejects.toThrow('解析 Gemini 响应失败');
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(mocks.remove).toHaveBeenCalledWith({ name: 'files/talk' });
+  });
+
+  it('waits for the uploaded video to finish processing', async () => {
+    vi.useFakeTimers();
+    mocks.probeVideoDuration.mockResolvedValue(250);
+    mocks.upload.mockResolvedValue({ name: 'files/talk', state: FileState.PROCESSING });
+    mocks.get.mockResolvedValue({ name: 'files/talk', state: FileState.FAILED });
+
+    const pending = analyzeVideoWithGemini(videoFile(), () => {}, OPTIONS);
+    const assertion = expect(pending).rejects.toThrow('Gemini 无法处理上传的视频');
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(mocks.get).toHaveBeenCalledWith({ name: 'files/talk' });
+    expect(mocks.generateContent).not.toHaveBeenCalled();
+  });
+});
+
+describe('translateSegmentsWithGemini', () => {
+  it('keeps only non-empty translations for requested ids', async () => {
+    mocks.generateContent.mockResolvedValue(translationResponse);
+    const segments = [seg('1', '大家好，欢迎来到本期节目。'), seg('2', ' '), seg('3', '嗯……'), seg('4', '我们来聊聊剪辑。')];
+
+    const translated = await translateSegmentsWithGemini(segments, 'en', () => {}, OPTIONS);
+
+    const prompt: string = mocks.generateContent.mock.calls[0][0].contents[0].parts[0].text;
+    expect(prompt).toContain('English');
+    expect(prompt).not.toContain('"id":"2"');
+    expect(translated).toEqual({
+      '1': 'Hello everyone, welcome to the show.',
+      '4': "Let's talk about editing."
+    });
+  });
+});
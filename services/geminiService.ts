@@ -1,71 +1,222 @@
+import { FileState, GoogleGenAI, Part, Type } from "@google/genai";
+import { AnalysisResult, AnalysisSettings, SubtitleSegment } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { AnalysisWindow, ChunkProgress, analyzeInWindows, planAnalysisWindows } from "../utils/chunking";
+import { probeVideoDuration } from "../utils/media";
+import { isTransientError, withRetry } from "../utils/retry";
+import { ResponseParseError, recoverSegmentsJson, repairSegments } from "../utils/segmentValidation";
+import { TRANSLATION_BATCH_SIZE, TRANSLATION_LANGUAGES, chunkArray } from "../utils/translation";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { SubtitleSegment } from "../types";
+export const DEFAULT_GEMINI_API_KEY = process.env.API_KEY || '';
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
-const API_KEY = process.env.API_KEY || '';
+// 超过该大小的视频走 Files API 上传，避免整段 base64 占用内存和超出请求上限
+const INLINE_SIZE_LIMIT = 15 * 1024 * 1024;
+const FILE_POLL_INTERVAL_MS = 2000;
+const API_MAX_ATTEMPTS = 4;
+const API_RETRY_BASE_MS = 1000;
 
-export const analyzeVideoWithGemini = async (
-  videoFile: File,
-  onProgress: (msg: string) => void
-): Promise<SubtitleSegment[]> => {
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  
-  onProgress("正在转换视频以供分析...");
-  const base64Video = await fileToBase64(videoFile);
-
-  onProgress("Gemini 正在扫描语义和内容...");
-  
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: [
-      {
-        parts: [
-          {
-            inlineData: {
-              mimeType: videoFile.type,
-              data: base64Video.split(',')[1],
-            },
-          },
-          {
-            text: `请分析这段视频。执行以下操作：
+const RESPONSE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      startTime: { type: Type.NUMBER },
+      endTime: { type: Type.NUMBER },
+      text: { type: Type.STRING },
+      isRedundant: { type: Type.BOOLEAN },
+      confidence: { type: Type.NUMBER },
+    },
+    required: ["id", "startTime", "endTime", "text", "isRedundant"],
+  },
+};
+
+const TRANSLATION_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      text: { type: Type.STRING },
+    },
+    required: ["id", "text"],
+  },
+};
+
+const buildPrompt = (window?: AnalysisWindow) => {
+  const scope = window
+    ? `这是原视频 ${window.start.toFixed(1)} 秒到 ${window.end.toFixed(1)} 秒的片段。所有时间戳都以该片段的开头为 0 秒计算，不要加上片段在原视频中的偏移。`
+    : '';
+  return `请分析这段视频。${scope}执行以下操作：
             1. 转录语音，并提供精确的开始和结束时间戳（秒）。
             2. 识别“冗余”片段（静音、填充词如‘嗯/啊’、重复的镜头或无关的背景噪音）。
             3. 严格按照 JSON 数组格式返回结果，对象字段包含：
                id (字符串), startTime (数字), endTime (数字), text (字符串), isRedundant (布尔值), confidence (数字)。
-               仅返回 JSON 数组，不要包含其他解释文本。`,
-          },
-        ],
-      },
-    ],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            startTime: { type: Type.NUMBER },
-            endTime: { type: Type.NUMBER },
-            text: { type: Type.STRING },
-            isRedundant: { type: Type.BOOLEAN },
-            confidence: { type: Type.NUMBER },
-          },
-          required: ["id", "startTime", "endTime", "text", "isRedundant"],
-        },
+               仅返回 JSON 数组，不要包含其他解释文本。`;
+};
+
+// 限流或服务端临时故障时按指数退避重试，其余错误直接抛出
+const requestSegments = async (
+  ai: GoogleGenAI,
+  model: string,
+  videoPart: Part,
+  prompt: string,
+  onProgress: ChunkProgress
+): Promise<AnalysisResult> => {
+  const response = await withRetry(
+    () => ai.models.generateContent({
+      model,
+      contents: [{ parts: [videoPart, { text: prompt }] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: RESPONSE_SCHEMA,
       },
-    },
+    }),
+    {
+      maxAttempts: API_MAX_ATTEMPTS,
+      baseDelayMs: API_RETRY_BASE_MS,
+      shouldRetry: isTransientError,
+      onRetry: (attempt) => onProgress(`Gemini 服务繁忙，正在进行第 ${attempt} 次尝试...`),
+    }
+  );
+  const { items, issues } = recoverSegmentsJson(response.text);
+  if (issues.length > 0) console.warn("Gemini 响应存在问题", issues);
+  return { segments: items as SubtitleSegment[], issues };
+};
+
+const uploadVideo = async (ai: GoogleGenAI, videoFile: File, onProgress: ChunkProgress) => {
+  onProgress("正在上传视频到 Gemini...");
+  let uploaded = await ai.files.upload({
+    file: videoFile,
+    config: { mimeType: videoFile.type, displayName: videoFile.name },
   });
 
+  // 上传后需等待服务端转码完成才能引用
+  while (uploaded.state === FileState.PROCESSING) {
+    onProgress("Gemini 正在处理上传的视频...");
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+    uploaded = await ai.files.get({ name: uploaded.name! });
+  }
+  if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+    throw new Error("Gemini 无法处理上传的视频");
+  }
+  return uploaded;
+};
+
+export const analyzeVideoWithGemini = async (
+  videoFile: File,
+  onProgress: ChunkProgress,
+  options: AnalysisSettings['gemini'] = { apiKey: DEFAULT_GEMINI_API_KEY, model: DEFAULT_GEMINI_MODEL }
+): Promise<AnalysisResult> => {
+  if (!options.apiKey) throw new Error("未配置 Gemini API Key");
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+
+  const duration = await probeVideoDuration(videoFile).catch(() => 0);
+  const windows = planAnalysisWindows(duration);
+
+  // 短小的视频仍按原方式内联发送，省去上传与轮询
+  if (windows.length === 1 && videoFile.size <= INLINE_SIZE_LIMIT) {
+    onProgress("正在转换视频以供分析...");
+    const base64Video = await fileToBase64(videoFile);
+
+    onProgress("Gemini 正在扫描语义和内容...");
+    return requestSegments(
+      ai,
+      model,
+      { inlineData: { mimeType: videoFile.type, data: base64Video.split(',')[1] } },
+      buildPrompt(),
+      onProgress
+    );
+  }
+
+  const uploaded = await uploadVideo(ai, videoFile, onProgress);
   try {
-    const segments = JSON.parse(response.text || "[]");
-    return segments;
-  } catch (error) {
-    console.error("解析 Gemini 响应失败", error);
-    return [];
+    // 浏览器无法读取时长（如 MKV/HEVC 录像）时无从分窗，整段分析上传的文件
+    if (!duration) {
+      onProgress("无法读取视频时长，Gemini 正在整段分析...");
+      return await requestSegments(
+        ai,
+        model,
+        { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType || videoFile.type } },
+        buildPrompt(),
+        onProgress
+      );
+    }
+    return await analyzeInWindows(windows, async (window) => {
+      const result = await requestSegments(
+        ai,
+        model,
+        {
+          fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType || videoFile.type },
+          videoMetadata: { startOffset: `${window.start}s`, endOffset: `${window.end}s` },
+        },
+        buildPrompt(window),
+        onProgress
+      );
+      // 完全无法解析时整段重试；否则先按窗口长度修复，保证合并前时间戳是合法数字
+      if (result.segments.length === 0 && result.issues.some(i => i.kind === 'parse')) {
+        throw new ResponseParseError("解析 Gemini 响应失败");
+      }
+      const repaired = repairSegments(result.segments, window.end - window.start);
+      return { segments: repaired.segments, issues: [...result.issues, ...repaired.issues] };
+    }, onProgress);
+  } finally {
+    ai.files.delete({ name: uploaded.name! }).catch(() => undefined);
   }
 };
 
+const buildTranslationPrompt = (language: string, items: { id: string; text: string }[]) =>
+  `将下列视频字幕翻译为${TRANSLATION_LANGUAGES[language] ?? language}。保持每条的 id 不变，逐条翻译，不要合并或拆分条目，译文简洁适合作为字幕。
+            仅返回 JSON 数组，对象字段为 id (字符串) 和 text (译文字符串)。
+            ${JSON.stringify(items)}`;
+
+/**
+ * 分批翻译字幕。缺失或无法解析的条目不会出现在结果中，由调用方保留原状。
+ */
+export const translateSegmentsWithGemini = async (
+  segments: SubtitleSegment[],
+  language: string,
+  onProgress: ChunkProgress,
+  options: AnalysisSettings['gemini'] = { apiKey: DEFAULT_GEMINI_API_KEY, model: DEFAULT_GEMINI_MODEL }
+): Promise<Record<string, string>> => {
+  if (!options.apiKey) throw new Error("未配置 Gemini API Key");
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+  const batches = chunkArray(segments.filter(s => s.text.trim()), TRANSLATION_BATCH_SIZE);
+  const translated: Record<string, string> = {};
+
+  for (let i = 0; i < batches.length; i++) {
+    onProgress(`正在翻译第 ${i + 1}/${batches.length} 批字幕...`, i / batches.length);
+    const items = batches[i].map(s => ({ id: s.id, text: s.text }));
+    const response = await withRetry(
+      () => ai.models.generateContent({
+        model,
+        contents: [{ parts: [{ text: buildTranslationPrompt(language, items) }] }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: TRANSLATION_SCHEMA,
+        },
+      }),
+      {
+        maxAttempts: API_MAX_ATTEMPTS,
+        baseDelayMs: API_RETRY_BASE_MS,
+        shouldRetry: isTransientError,
+        onRetry: (attempt) => onProgress(`Gemini 服务繁忙，正在进行第 ${attempt} 次尝试...`),
+      }
+    );
+    const ids = new Set(items.map(item => item.id));
+    for (const item of recoverSegmentsJson(response.text).items as { id?: unknown; text?: unknown }[]) {
+      if (typeof item.id === 'string' && ids.has(item.id) && typeof item.text === 'string' && item.text.trim()) {
+        translated[item.id] = item.text.trim();
+      }
+    }
+  }
+  onProgress("翻译完成", 1);
+  return translated;
+};
+
 const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -74,3 +225,10 @@ const fileToBase64 = (file: File): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+export const createGeminiProvider = (options: AnalysisSettings['gemini']): AnalysisProvider => ({
+  id: 'gemini',
+  label: `Gemini (${options.model || DEFAULT_GEMINI_MODEL})`,
+  analyze: (videoFile, onProgress) => analyzeVideoWithGemini(videoFile, onProgress, options),
+  translate: (segments, language, onProgress) => translateSegmentsWithGemini(segments, language, onProgress, options)
+});
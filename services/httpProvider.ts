@@ -0,0 +1,71 @@
+import { AnalysisSettings, SubtitleSegment } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+
+// whisper.cpp server / OpenAI 兼容接口 verbose_json 返回的片段
+interface TranscriptionSegment {
+  id?: number | string;
+  start?: number;
+  end?: number;
+  startTime?: number;
+  endTime?: number;
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+  isRedundant?: boolean;
+  confidence?: number;
+}
+
+const toConfidence = (seg: TranscriptionSegment) => {
+  if (typeof seg.confidence === 'number') return seg.confidence;
+  if (typeof seg.avg_logprob === 'number') return Math.min(1, Math.max(0, Math.exp(seg.avg_logprob)));
+  if (typeof seg.no_speech_prob === 'number') return 1 - seg.no_speech_prob;
+  return 1;
+};
+
+export const mapTranscription = (body: unknown): SubtitleSegment[] => {
+  const items: TranscriptionSegment[] = Array.isArray(body)
+    ? body
+    : (body as { segments?: TranscriptionSegment[] })?.segments ?? [];
+
+  return items
+    .filter(seg => typeof seg.text === 'string')
+    .map((seg, i) => ({
+      id: String(seg.id ?? i + 1),
+      startTime: seg.startTime ?? seg.start ?? 0,
+      endTime: seg.endTime ?? seg.end ?? 0,
+      text: seg.text.trim(),
+      isRedundant: seg.isRedundant ?? false,
+      confidence: toConfidence(seg)
+    }));
+};
+
+export const createHttpProvider = (options: AnalysisSettings['http']): AnalysisProvider => ({
+  id: 'http',
+  label: `本地服务 (${options.endpoint})`,
+  analyze: async (videoFile, onProgress) => {
+    if (!options.endpoint) throw new Error("未配置本地分析服务地址");
+
+    const form = new FormData();
+    form.append('file', videoFile, videoFile.name);
+    form.append('response_format', 'verbose_json');
+    if (options.language && options.language !== 'auto') form.append('language', options.language);
+
+    onProgress(`正在上传视频到 ${options.endpoint}...`);
+    let response: Response;
+    try {
+      response = await fetch(options.endpoint, {
+        method: 'POST',
+        body: form,
+        headers: options.authToken ? { Authorization: `Bearer ${options.authToken}` } : undefined
+      });
+    } catch {
+      throw new Error(`无法连接本地分析服务: ${options.endpoint}`);
+    }
+    if (!response.ok) {
+      throw new Error(`本地分析服务返回错误 ${response.status}: ${response.statusText}`);
+    }
+
+    onProgress("正在解析转录结果...");
+    return { segments: mapTranscription(await response.json()), issues: [] };
+  }
+});
@@ -0,0 +1,82 @@
+import { ALL_FORMATS, AudioSampleSink, BlobSource, CanvasSink, Input } from "mediabunny";
+
+export interface Thumbnail {
+  timestamp: number;
+  image: ImageBitmap;
+}
+
+/**
+ * 计算音频波形峰值：把全片均分为 buckets 段，每段取第一声道的最大振幅（0-1）。
+ * 流式读取解码后的音频，不需要一次性解码整个文件。
+ */
+export const computeWaveform = async (file: Blob, buckets: number): Promise<Float32Array> => {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  try {
+    const peaks = new Float32Array(buckets);
+    const track = await input.getPrimaryAudioTrack();
+    if (!track || !(await track.canDecode())) return peaks;
+
+    const duration = await input.computeDuration();
+    if (!duration) return peaks;
+    const sink = new AudioSampleSink(track);
+
+    for await (const sample of sink.samples()) {
+      const frames = sample.numberOfFrames;
+      const data = new Float32Array(frames);
+      sample.copyTo(data, { planeIndex: 0, format: 'f32-planar' });
+      for (let i = 0; i < frames; i++) {
+        const t = sample.timestamp + i / sample.sampleRate;
+        const bucket = Math.min(buckets - 1, Math.max(0, Math.floor(t / duration * buckets)));
+        const value = Math.abs(data[i]);
+        if (value > peaks[bucket]) peaks[bucket] = value;
+      }
+      sample.close();
+    }
+    return peaks;
+  } finally {
+    input.dispose();
+  }
+};
+
+/**
+ * 按固定间隔抽取缩略图。
+ */
+export const generateThumbnails = async (
+  file: Blob,
+  interval: number,
+  height = 54
+): Promise<Thumbnail[]> => {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  try {
+    const track = await input.getPrimaryVideoTrack();
+    if (!track || !(await track.canDecode())) return [];
+
+    const duration = await input.computeDuration();
+    const width = Math.round(height * track.displayWidth / track.displayHeight);
+    const sink = new CanvasSink(track, { width, height, fit: 'cover' });
+    const timestamps = Array.from({ length: Math.max(1, Math.ceil(duration / interval)) }, (_, i) => i * interval);
+
+    const thumbnails: Thumbnail[] = [];
+    let index = 0;
+    try {
+      for await (const wrapped of sink.canvasesAtTimestamps(timestamps)) {
+        const timestamp = timestamps[index++];
+        if (!wrapped) continue;
+        thumbnails.push({ timestamp, image: await createImageBitmap(wrapped.canvas) });
+      }
+    } catch (err) {
+      releaseThumbnails(thumbnails);
+      throw err;
+    }
+    return thumbnails;
+  } finally {
+    input.dispose();
+  }
+};
+
+/**
+ * 释放缩略图占用的位图内存，关闭或切换项目时调用。
+ */
+export const releaseThumbnails = (thumbnails: Thumbnail[]) => {
+  thumbnails.forEach(thumb => thumb.image.close());
+};
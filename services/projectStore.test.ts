@@ -0,0 +1,101 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { ProjectData } from '../types';
+import { PROJECT_SCHEMA_VERSION } from '../utils/projectFile';
+import { unpackHistory } from '../utils/history';
+import { DEFAULT_SUBTITLE_STYLE } from '../utils/subtitleStyle';
+import { DEFAULT_CAPTION_SETTINGS } from '../utils/translation';
+import { DEFAULT_COMPOSITION_SETTINGS } from '../utils/composition';
+import { listProjects, loadProject, saveProject } from './projectStore';
+
+const segment = { id: '1', startTime: 0, endTime: 1, text: '你好', isRedundant: false, confidence: 1 };
+
+// 版本 1 的自动保存记录：还没有样式、历史、多语言字幕与成片设置
+const v1Record = (id: string, updatedAt = 1) => ({
+  version: 1,
+  id,
+  name: 'old.mp4',
+  createdAt: 1,
+  updatedAt,
+  video: { name: 'old.mp4', size: 4, type: 'video/mp4', lastModified: 0, duration: 1 },
+  segments: [segment],
+  selectedSegments: [segment]
+});
+
+// 直接读取存储中的原始记录，确认升级结果已写回
+const readStored = (id: string) =>
+  new Promise<any>((resolve, reject) => {
+    const open = indexedDB.open('novaclip');
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const request = open.result.transaction('projects').objectStore('projects').get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    };
+  });
+
+describe('loadProject', () => {
+  it('migrates a record autosaved by an older version and writes it back', async () => {
+    await saveProject(v1Record('old') as unknown as ProjectData);
+    const project = await loadProject('old');
+    expect(project).toMatchObject({
+      version: PROJECT_SCHEMA_VERSION,
+      segments: [segment],
+      style: DEFAULT_SUBTITLE_STYLE,
+      captions: DEFAULT_CAPTION_SETTINGS,
+      composition: DEFAULT_COMPOSITION_SETTINGS,
+      history: { segments: [], past: [], future: [] }
+    });
+    expect((await readStored('old')).version).toBe(PROJECT_SCHEMA_VERSION);
+  });
+
+  it('converts the full-snapshot history of a version 5 autosave into the pooled format', async () => {
+    const edited = { ...segment, text: '改过' };
+    const history = {
+      past: [{ label: '编辑文字', timestamp: 1, before: { segments: [segment], selectedSegments: [] }, after: { segments: [edited], selectedSegments: [] } }],
+      future: []
+    };
+    await saveProject({
+      ...v1Record('v5'),
+      version: 5,
+      style: DEFAULT_SUBTITLE_STYLE,
+      history,
+      captions: DEFAULT_CAPTION_SETTINGS,
+      composition: DEFAULT_COMPOSITION_SETTINGS
+    } as unknown as ProjectData);
+    const project = await loadProject('v5');
+    expect(project?.history.segments).toEqual([segment, edited]);
+    expect(unpackHistory(project!.history)).toEqual(history);
+  });
+
+  it('fills in caption and composition settings missing from version 3 and 4 autosaves', async () => {
+    const style = { ...DEFAULT_SUBTITLE_STYLE, fontSize: 60 };
+    await saveProject({ ...v1Record('v3'), version: 3, style, history: { past: [], future: [] } } as unknown as ProjectData);
+    await saveProject({
+      ...v1Record('v4'),
+      version: 4,
+      style,
+      history: { past: [], future: [] },
+      captions: { ...DEFAULT_CAPTION_SETTINGS, mode: 'bilingual' }
+    } as unknown as ProjectData);
+    expect(await loadProject('v3')).toMatchObject({ style, captions: DEFAULT_CAPTION_SETTINGS, composition: DEFAULT_COMPOSITION_SETTINGS });
+    expect(await loadProject('v4')).toMatchObject({ captions: { mode: 'bilingual' }, composition: DEFAULT_COMPOSITION_SETTINGS });
+  });
+
+  it('returns undefined for an unknown id', async () => {
+    expect(await loadProject('missing')).toBeUndefined();
+  });
+});
+
+describe('listProjects', () => {
+  it('migrates old records and skips ones it cannot read', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await saveProject(v1Record('listed', 100) as unknown as ProjectData);
+    await saveProject({ ...v1Record('future', 200), version: PROJECT_SCHEMA_VERSION + 1 } as unknown as ProjectData);
+    const projects = await listProjects();
+    expect(projects.map(p => p.id)).not.toContain('future');
+    expect(projects.find(p => p.id === 'listed')?.version).toBe(PROJECT_SCHEMA_VERSION);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,109 @@
+import { ProjectData } from "../types";
+import { PROJECT_SCHEMA_VERSION, migrateProject } from "../utils/projectFile";
+
+const DB_NAME = 'novaclip';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const VIDEO_STORE = 'videos';
+
+interface StoredVideo {
+  projectId: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(VIDEO_STORE)) {
+          db.createObjectStore(VIDEO_STORE, { keyPath: 'projectId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveProject = (project: ProjectData) =>
+  run<IDBValidKey>(PROJECT_STORE, 'readwrite', store => store.put(project));
+
+/**
+ * 旧版本应用自动保存的记录与导入的项目文件一样逐版本升级，再写回存储，
+ * 之后读取时无需再次迁移。
+ */
+const upgradeStored = async (raw: any): Promise<ProjectData> => {
+  if (raw?.version === PROJECT_SCHEMA_VERSION) return raw as ProjectData;
+  const project = migrateProject(raw);
+  await saveProject(project).catch(err => console.warn("升级后的项目未能写回本地存储", err));
+  return project;
+};
+
+export const loadProject = async (id: string): Promise<ProjectData | undefined> => {
+  const raw = await run<unknown>(PROJECT_STORE, 'readonly', store => store.get(id));
+  return raw === undefined ? undefined : upgradeStored(raw);
+};
+
+export const listProjects = async (): Promise<ProjectData[]> => {
+  const records = await run<unknown[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  const projects: ProjectData[] = [];
+  for (const raw of records) {
+    try {
+      projects.push(await upgradeStored(raw));
+    } catch (err) {
+      // 无法升级的记录（如更高版本应用保存的）不出现在列表中，也不影响其他项目
+      console.warn("跳过无法读取的项目", err);
+    }
+  }
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string) => {
+  await run(PROJECT_STORE, 'readwrite', store => store.delete(id));
+  await run(VIDEO_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * 保存视频原始数据。大文件可能超出浏览器配额，失败时返回 false，
+ * 项目仍以指纹形式保存，恢复时需要用户重新选择文件。
+ */
+export const saveVideoBlob = async (projectId: string, blob: Blob): Promise<boolean> => {
+  try {
+    await run(VIDEO_STORE, 'readwrite', store => store.put({ projectId, blob } as StoredVideo));
+    return true;
+  } catch (error) {
+    console.warn("视频未能写入本地存储，将仅保存指纹", error);
+    return false;
+  }
+};
+
+export const loadVideoBlob = async (projectId: string): Promise<Blob | null> => {
+  const stored = await run<StoredVideo | undefined>(VIDEO_STORE, 'readonly', store => store.get(projectId));
+  return stored?.blob ?? null;
+};
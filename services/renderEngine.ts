@@ -0,0 +1,681 @@
+import {
+  ALL_FORMATS,
+  AudioSampleSink,
+  AudioSampleSource,
+  BlobSource,
+  BufferTarget,
+  CanvasSource,
+  Input,
+  Mp4OutputFormat,
+  Output,
+  VideoSample,
+  VideoSampleSink,
+  WebMOutputFormat,
+  canEncodeAudio,
+  canEncodeVideo,
+  getEncodableVideoCodecs
+} from "mediabunny";
+import {
+  CaptionSettings,
+  CompositionSettings,
+  ExportContainer,
+  ExportSettings,
+  ExportVideoCodec,
+  RenderProgress,
+  SubtitleSegment,
+  SubtitleStyle,
+  TitleCard
+} from "../types";
+import { CaptionBlock, SubtitleContext, drawCaption, layoutCaption } from "../utils/subtitleRenderer";
+import { captionTracks } from "../utils/translation";
+import {
+  AUDIO_BITRATE,
+  CONTAINER_AUDIO_CODEC,
+  CONTAINER_CODECS,
+  containerMimeType,
+  outputSize,
+  resolveVideoBitrate
+} from "../utils/exportSettings";
+import { cropCenterAt, drawReframedFrame } from "../utils/reframe";
+import {
+  CardImage,
+  CompositionItem,
+  activeItems,
+  boundaryTransition,
+  buildComposition,
+  drawLayer,
+  drawTitleCard,
+  itemGain,
+  layerVisual,
+  loadCardImage,
+  musicGain,
+  speechRanges
+} from "../utils/composition";
+import { createCompositionMixer } from "./audioMixer";
+
+export interface RenderOptions {
+  style: SubtitleStyle;
+  captions: CaptionSettings;
+  composition: CompositionSettings;
+  // 背景音乐文件，不需要时为 null
+  music: Blob | null;
+  settings: ExportSettings;
+  onProgress?: (progress: RenderProgress) => void;
+  onMessage?: (msg: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExportCapabilities {
+  webCodecs: boolean;
+  videoCodecs: Record<ExportContainer, ExportVideoCodec[]>;
+  audio: Record<ExportContainer, boolean>;
+}
+
+// 实时录制回退路径中各容器/编码组合对应的 MediaRecorder MIME 类型
+const MEDIA_RECORDER_TYPES: Record<ExportContainer, Partial<Record<ExportVideoCodec, string>>> = {
+  webm: {
+    vp9: 'video/webm;codecs=vp9,opus',
+    vp8: 'video/webm;codecs=vp8,opus',
+    av1: 'video/webm;codecs=av01,opus'
+  },
+  mp4: {
+    avc: 'video/mp4;codecs=avc1,mp4a.40.2',
+    hevc: 'video/mp4;codecs=hvc1,mp4a.40.2',
+    av1: 'video/mp4;codecs=av01,mp4a.40.2',
+    vp9: 'video/mp4;codecs=vp09,mp4a.40.2'
+  }
+};
+const MEDIA_RECORDER_FALLBACK_TYPE = 'video/webm;codecs=vp8,opus';
+
+// 源视频没有音轨、只有背景音乐时的输出音频格式
+const MUSIC_ONLY_SAMPLE_RATE = 48000;
+const MUSIC_ONLY_CHANNELS = 2;
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("渲染已取消");
+    this.name = 'RenderCancelledError';
+  }
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new RenderCancelledError();
+};
+
+export const isWebCodecsRenderSupported = () =>
+  typeof VideoEncoder !== 'undefined'
+  && typeof VideoDecoder !== 'undefined'
+  && typeof AudioEncoder !== 'undefined'
+  && typeof AudioDecoder !== 'undefined';
+
+export const isWorkerRenderSupported = () =>
+  typeof Worker !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined'
+  && isWebCodecsRenderSupported();
+
+// 主线程与渲染 Worker 之间的消息；Blob/File 可直接结构化克隆
+export type RenderWorkerRequest =
+  | {
+    type: 'start';
+    file: Blob;
+    segments: SubtitleSegment[];
+    style: SubtitleStyle;
+    captions: CaptionSettings;
+    composition: CompositionSettings;
+    music: Blob | null;
+    settings: ExportSettings;
+  }
+  | { type: 'cancel' };
+
+export type RenderWorkerEvent =
+  | { type: 'progress'; progress: RenderProgress }
+  | { type: 'message'; message: string }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string; cancelled: boolean };
+
+type FrameProgress = Omit<RenderProgress, 'percent' | 'etaSeconds'>;
+
+// 逐帧进度的最小上报间隔；切换片段和完成时总是立即上报
+const PROGRESS_INTERVAL_MS = 100;
+// 取消后等待 Worker 自行收尾的时间，超时直接终止
+const WORKER_CANCEL_GRACE_MS = 2000;
+
+/**
+ * 把逐帧进度节流并补上百分比与剩余时间估算。
+ * 剩余时间按已用时间线性外推，完成比例太小时不给出估计。
+ */
+export const createProgressReporter = (onProgress?: (progress: RenderProgress) => void) => {
+  const startedAt = performance.now();
+  let lastEmit = -Infinity;
+  let lastSegment = -1;
+
+  return (frame: FrameProgress) => {
+    if (!onProgress) return;
+    const now = performance.now();
+    const finished = frame.framesDone >= frame.totalFrames;
+    if (!finished && frame.segmentIndex === lastSegment && now - lastEmit < PROGRESS_INTERVAL_MS) return;
+    lastEmit = now;
+    lastSegment = frame.segmentIndex;
+
+    const fraction = frame.totalFrames > 0 ? Math.min(1, frame.framesDone / frame.totalFrames) : 0;
+    const elapsed = (now - startedAt) / 1000;
+    onProgress({
+      ...frame,
+      percent: Math.round(fraction * 100),
+      etaSeconds: fraction >= 0.01 && elapsed >= 1 ? (elapsed * (1 - fraction)) / fraction : null
+    });
+  };
+};
+
+/**
+ * 探测当前浏览器在给定输出尺寸下可用的容器与编码组合。
+ * 支持 WebCodecs 时询问编码器，否则按 MediaRecorder.isTypeSupported 判断。
+ */
+export const probeExportCapabilities = async (width: number, height: number): Promise<ExportCapabilities> => {
+  const containers: ExportContainer[] = ['webm', 'mp4'];
+
+  if (isWebCodecsRenderSupported()) {
+    const entries = await Promise.all(containers.map(async container => [
+      container,
+      await getEncodableVideoCodecs(CONTAINER_CODECS[container], { width, height }) as ExportVideoCodec[],
+      await canEncodeAudio(CONTAINER_AUDIO_CODEC[container])
+    ] as const));
+    return {
+      webCodecs: true,
+      videoCodecs: Object.fromEntries(entries.map(([c, codecs]) => [c, codecs])) as ExportCapabilities['videoCodecs'],
+      audio: Object.fromEntries(entries.map(([c, , audio]) => [c, audio])) as ExportCapabilities['audio']
+    };
+  }
+
+  const supported = (container: ExportContainer) =>
+    CONTAINER_CODECS[container].filter(codec => {
+      const type = MEDIA_RECORDER_TYPES[container][codec];
+      return !!type && typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type);
+    });
+  const videoCodecs = { webm: supported('webm'), mp4: supported('mp4') };
+  return {
+    webCodecs: false,
+    videoCodecs,
+    audio: { webm: videoCodecs.webm.length > 0, mp4: videoCodecs.mp4.length > 0 }
+  };
+};
+
+const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * 基于 WebCodecs 的离线渲染：按成片时间轴逐帧解码源视频、合成转场、字幕与片头片尾卡后编码，
+ * 音频由混音器按同一时间轴生成。不经过扬声器，速度只受编解码性能限制。
+ */
+export const renderWithWebCodecs = async (
+  file: Blob,
+  segs: SubtitleSegment[],
+  options: RenderOptions
+): Promise<Blob> => {
+  const { style, captions, composition, settings, signal } = options;
+  const { frameRate } = settings;
+  const report = createProgressReporter(options.onProgress);
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  const musicInput = options.music ? new Input({ source: new BlobSource(options.music), formats: ALL_FORMATS }) : null;
+  let output: Output | null = null;
+  let mixer: ReturnType<typeof createCompositionMixer> | null = null;
+  const frameIterators = new Map<CompositionItem, AsyncGenerator<VideoSample | null, void, unknown>>();
+  const cardImages = new Map<TitleCard, CardImage | null>();
+
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) throw new Error("源文件中没有视频轨道");
+    if (!(await videoTrack.canDecode())) throw new Error("浏览器无法解码该视频编码");
+    const audioTrack = await input.getPrimaryAudioTrack();
+    const dialogueTrack = audioTrack && await audioTrack.canDecode() ? audioTrack : null;
+    const musicTrack = musicInput ? await musicInput.getPrimaryAudioTrack() : null;
+    if (musicInput && !(musicTrack && await musicTrack.canDecode())) throw new Error("无法解码背景音乐文件");
+
+    const sourceSize = { width: videoTrack.displayWidth, height: videoTrack.displayHeight };
+    const { width, height } = outputSize(settings, sourceSize.width, sourceSize.height);
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d', { alpha: false }) as SubtitleContext | null;
+    if (!ctx) throw new Error("无法创建 Canvas 上下文");
+
+    if (!(await canEncodeVideo(settings.videoCodec, { width, height }))) {
+      throw new Error(`浏览器不支持以 ${width}x${height} 编码 ${settings.videoCodec}`);
+    }
+    const audioCodec = CONTAINER_AUDIO_CODEC[settings.container];
+    const includeAudio = !!dialogueTrack || !!musicTrack;
+    if (includeAudio && !(await canEncodeAudio(audioCodec))) {
+      throw new Error(`浏览器不支持 ${audioCodec} 音频编码`);
+    }
+
+    output = new Output({
+      format: settings.container === 'mp4' ? new Mp4OutputFormat({ fastStart: 'in-memory' }) : new WebMOutputFormat(),
+      target: new BufferTarget()
+    });
+    const videoSource = new CanvasSource(canvas, {
+      codec: settings.videoCodec,
+      bitrate: resolveVideoBitrate(settings, videoTrack.displayWidth, videoTrack.displayHeight)
+    });
+    output.addVideoTrack(videoSource, { frameRate });
+
+    const audioSource = includeAudio ? new AudioSampleSource({ codec: audioCodec, bitrate: AUDIO_BITRATE }) : null;
+    if (audioSource) output.addAudioTrack(audioSource);
+
+    await output.start();
+
+    const layout = buildComposition(segs, composition, frameRate);
+    const videoSink = new VideoSampleSink(videoTrack);
+    if (audioSource) {
+      mixer = createCompositionMixer({
+        layout,
+        dialogue: dialogueTrack ? new AudioSampleSink(dialogueTrack) : null,
+        music: musicTrack ? new AudioSampleSink(musicTrack) : null,
+        musicSettings: composition.music,
+        audioFade: composition.audioFade,
+        channels: dialogueTrack?.numberOfChannels ?? MUSIC_ONLY_CHANNELS,
+        sampleRate: dialogueTrack?.sampleRate ?? MUSIC_ONLY_SAMPLE_RATE,
+        target: audioSource
+      });
+    }
+
+    for (const item of layout.items) {
+      if (item.kind === 'card' && !cardImages.has(item.card)) cardImages.set(item.card, await loadCardImage(item.card.image));
+    }
+    // 每个片段只排版一次，逐帧仅根据进度选择分页
+    const captionLayouts = new Map<CompositionItem, CaptionBlock[]>();
+
+    // 每个片段按需建立自己的逐帧解码序列，交叉溶解时两个片段同时推进
+    const nextFrame = async (item: CompositionItem & { kind: 'clip' }) => {
+      let frames = frameIterators.get(item);
+      if (!frames) {
+        const count = Math.round(item.duration * frameRate);
+        frames = videoSink.samplesAtTimestamps(Array.from({ length: count }, (_, i) => item.clip.startTime + i / frameRate));
+        frameIterators.set(item, frames);
+      }
+      const result = await frames.next();
+      return result.done === true ? null : result.value;
+    };
+
+    for (let frame = 0; frame < layout.totalFrames; frame++) {
+      throwIfAborted(signal);
+      const time = frame / frameRate;
+      const layers = activeItems(layout, time);
+
+      for (const item of layers) {
+        const visual = layerVisual(item, time);
+        const local = time - item.start;
+        if (item.kind === 'card') {
+          drawLayer(ctx, visual, width, height, () => drawTitleCard(ctx, item.card, cardImages.get(item.card) ?? null, width, height));
+          continue;
+        }
+
+        const sample = await nextFrame(item);
+        let caption = captionLayouts.get(item);
+        if (!caption) {
+          caption = layoutCaption(ctx, captionTracks(item.clip, style, captions), width, height);
+          captionLayouts.set(item, caption);
+        }
+        const blocks = caption;
+        drawLayer(ctx, visual, width, height, () => {
+          // 片段开头早于第一帧时拿不到样本，沿用画布上的上一帧
+          if (sample) {
+            drawReframedFrame(
+              ctx,
+              (sx, sy, sw, sh, dx, dy, dw, dh) => sample.draw(ctx, sx, sy, sw, sh, dx, dy, dw, dh),
+              sourceSize,
+              { width, height },
+              settings.aspect,
+              settings.fit,
+              cropCenterAt(item.clip.crop, local)
+            );
+          }
+          drawCaption(ctx, blocks, local / item.duration, height);
+        });
+        sample?.close();
+
+        // 片段最后一帧画完后释放解码器
+        if (frame - Math.round(item.start * frameRate) === Math.round(item.duration * frameRate) - 1) {
+          frameIterators.get(item)?.return();
+          frameIterators.delete(item);
+          captionLayouts.delete(item);
+        }
+      }
+
+      await videoSource.add(time, 1 / frameRate);
+      const top = layers[layers.length - 1];
+      report({
+        segmentIndex: top.kind === 'clip' ? top.clipIndex : top.position === 'intro' ? 0 : segs.length - 1,
+        segmentCount: segs.length,
+        framesDone: frame + 1,
+        totalFrames: layout.totalFrames
+      });
+      await mixer?.keepUp(time);
+    }
+
+    throwIfAborted(signal);
+    await mixer?.finish();
+    options.onMessage?.("正在封装输出文件...");
+    await output.finalize();
+    const buffer = (output.target as BufferTarget).buffer;
+    if (!buffer) throw new Error("输出文件为空");
+    return new Blob([buffer], { type: containerMimeType(settings.container) });
+  } catch (error) {
+    if (output && output.state !== 'finalized' && output.state !== 'canceled') {
+      await output.cancel().catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    frameIterators.forEach(frames => frames.return());
+    mixer?.dispose();
+    cardImages.forEach(image => image?.close());
+    input.dispose();
+    musicInput?.dispose();
+  }
+};
+
+/**
+ * 在 Worker 中运行 WebCodecs 渲染，主线程只接收进度与结果。
+ * 取消时先通知 Worker 自行收尾，超时后直接终止；无论成败 Worker 都会被销毁。
+ */
+export const renderInWorker = (
+  file: Blob,
+  segs: SubtitleSegment[],
+  options: RenderOptions
+): Promise<Blob> => {
+  const { style, captions, composition, music, settings, onProgress, onMessage, signal } = options;
+  if (signal?.aborted) return Promise.reject(new RenderCancelledError());
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+    let killTimer: number | undefined;
+
+    const finish = () => {
+      window.clearTimeout(killTimer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      worker.postMessage({ type: 'cancel' } satisfies RenderWorkerRequest);
+      killTimer = window.setTimeout(() => {
+        finish();
+        reject(new RenderCancelledError());
+      }, WORKER_CANCEL_GRACE_MS);
+    };
+
+    worker.onmessage = (e: MessageEvent<RenderWorkerEvent>) => {
+      const event = e.data;
+      switch (event.type) {
+        case 'progress':
+          onProgress?.(event.progress);
+          break;
+        case 'message':
+          onMessage?.(event.message);
+          break;
+        case 'done':
+          finish();
+          resolve(event.blob);
+          break;
+        case 'error':
+          finish();
+          reject(event.cancelled ? new RenderCancelledError() : new Error(event.message));
+          break;
+      }
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      finish();
+      reject(new Error(e.message || "渲染 Worker 启动失败"));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.postMessage({ type: 'start', file, segments: segs, style, captions, composition, music, settings } satisfies RenderWorkerRequest);
+  });
+};
+
+/**
+ * 旧的实时录制路径：播放源视频并用 MediaRecorder 录制画布，仅在 WebCodecs 不可用时使用。
+ * 只有一路播放器，交叉溶解退化为黑场过渡；原声与背景音乐的音量逐帧跟随成片时间轴。
+ * 结束或取消时停止录制轨道、关闭 AudioContext 并释放视频元素。
+ */
+export const renderWithMediaRecorder = (
+  videoUrl: string,
+  segs: SubtitleSegment[],
+  options: RenderOptions
+): Promise<Blob> => {
+  const { style, captions, composition, music, settings, onMessage, signal } = options;
+  const { frameRate } = settings;
+  const report = createProgressReporter(options.onProgress);
+  const preferredType = MEDIA_RECORDER_TYPES[settings.container][settings.videoCodec];
+  const mimeType = preferredType && MediaRecorder.isTypeSupported(preferredType) ? preferredType : MEDIA_RECORDER_FALLBACK_TYPE;
+  if (signal?.aborted) return Promise.reject(new RenderCancelledError());
+
+  return new Promise((resolve, reject) => {
+    const sourceVideo = document.createElement('video');
+    sourceVideo.src = videoUrl;
+    sourceVideo.crossOrigin = "anonymous";
+    sourceVideo.muted = false;
+    sourceVideo.playsInline = true;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) return reject(new Error("无法创建 Canvas 上下文"));
+
+    let audioCtx: AudioContext | null = null;
+    let combinedStream: MediaStream | null = null;
+    let recorder: MediaRecorder | null = null;
+    const cardImages = new Map<TitleCard, CardImage | null>();
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+      combinedStream?.getTracks().forEach(track => track.stop());
+      if (audioCtx && audioCtx.state !== 'closed') audioCtx.close().catch(() => undefined);
+      cardImages.forEach(image => image?.close());
+      sourceVideo.pause();
+      sourceVideo.removeAttribute('src');
+      sourceVideo.load();
+    };
+    const fail = (error: unknown) => {
+      cleanup();
+      reject(error);
+    };
+    const onAbort = () => {
+      sourceVideo.pause();
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop();
+      } else {
+        fail(new RenderCancelledError());
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const record = async () => {
+      const size = outputSize(settings, sourceVideo.videoWidth, sourceVideo.videoHeight);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const layout = buildComposition(segs, composition, frameRate, false);
+      const ranges = speechRanges(layout);
+
+      // 设置音频上下文以捕获原声；原声与音乐各经过一个增益节点
+      audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+      const dest = audioCtx.createMediaStreamDestination();
+      const dialogueGain = audioCtx.createGain();
+      audioCtx.createMediaElementSource(sourceVideo).connect(dialogueGain);
+      dialogueGain.connect(dest);
+      dialogueGain.connect(audioCtx.destination); // 同时输出到扬声器，以便合成时同步
+
+      let musicNode: AudioBufferSourceNode | null = null;
+      const musicGainNode = audioCtx.createGain();
+      musicGainNode.gain.value = 0;
+      if (music) {
+        musicNode = audioCtx.createBufferSource();
+        musicNode.buffer = await audioCtx.decodeAudioData(await music.arrayBuffer());
+        musicNode.loop = true;
+        musicNode.connect(musicGainNode);
+        musicGainNode.connect(dest);
+        musicGainNode.connect(audioCtx.destination);
+      }
+      for (const item of layout.items) {
+        if (item.kind === 'card' && !cardImages.has(item.card)) cardImages.set(item.card, await loadCardImage(item.card.image));
+      }
+      if (signal?.aborted) throw new RenderCancelledError();
+
+      const videoStream = canvas.captureStream(frameRate);
+      combinedStream = new MediaStream([
+        ...videoStream.getVideoTracks(),
+        ...dest.stream.getAudioTracks()
+      ]);
+
+      if (mimeType !== preferredType) onMessage?.("浏览器不支持所选格式的实时录制，改用 WebM (VP8)");
+      if (segs.some(seg => boundaryTransition(seg, composition).kind === 'crossfade')) {
+        onMessage?.("实时录制不支持交叉溶解，改用黑场过渡");
+      }
+      const activeRecorder = new MediaRecorder(combinedStream, {
+        mimeType,
+        videoBitsPerSecond: resolveVideoBitrate(settings, sourceVideo.videoWidth, sourceVideo.videoHeight)
+      });
+      recorder = activeRecorder;
+      const chunks: Blob[] = [];
+
+      activeRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+
+      activeRecorder.onstop = () => {
+        cleanup();
+        if (signal?.aborted) reject(new RenderCancelledError());
+        else resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+      };
+
+      activeRecorder.start();
+      musicNode?.start();
+
+      // 增益逐帧跟随时间轴，用很短的时间常数平滑，避免阶跃
+      const setGain = (node: GainNode, value: number) => node.gain.setTargetAtTime(value, audioCtx!.currentTime, 0.01);
+
+      for (const item of layout.items) {
+        if (signal?.aborted) break;
+        const durationMs = item.duration * 1000;
+
+        if (item.kind === 'clip') {
+          onMessage?.(`正在录制片段: "${item.clip.text.substring(0, 15)}..."`);
+          setGain(dialogueGain, 0);
+          sourceVideo.currentTime = item.clip.startTime;
+          // 等待跳转完成
+          await new Promise(r => sourceVideo.addEventListener('seeked', r, { once: true }));
+          if (signal?.aborted) break;
+          sourceVideo.play();
+        } else {
+          setGain(dialogueGain, 0);
+          sourceVideo.pause();
+        }
+
+        // 每个片段只排版一次，逐帧仅根据进度选择分页
+        const caption = item.kind === 'clip'
+          ? layoutCaption(ctx, captionTracks(item.clip, style, captions), canvas.width, canvas.height)
+          : [];
+        const startRenderTime = Date.now();
+
+        // 循环渲染每一帧
+        await new Promise(r => {
+          const renderFrame = () => {
+            const elapsed = Date.now() - startRenderTime;
+            const playing = item.kind === 'card' || !sourceVideo.paused;
+
+            if (elapsed >= durationMs || !playing || signal?.aborted) {
+              if (item.kind === 'clip') sourceVideo.pause();
+              r(null);
+              return;
+            }
+
+            const time = item.start + elapsed / 1000;
+            drawLayer(ctx, layerVisual(item, time), canvas.width, canvas.height, () => {
+              if (item.kind === 'card') {
+                drawTitleCard(ctx, item.card, cardImages.get(item.card) ?? null, canvas.width, canvas.height);
+                return;
+              }
+              drawReframedFrame(
+                ctx,
+                (sx, sy, sw, sh, dx, dy, dw, dh) => ctx.drawImage(sourceVideo, sx, sy, sw, sh, dx, dy, dw, dh),
+                { width: sourceVideo.videoWidth, height: sourceVideo.videoHeight },
+                canvas,
+                settings.aspect,
+                settings.fit,
+                cropCenterAt(item.clip.crop, elapsed / 1000)
+              );
+              // 绘制带换行的字幕，与预览叠加层使用同一套排版
+              drawCaption(ctx, caption, elapsed / durationMs, canvas.height);
+            });
+            if (item.kind === 'clip') setGain(dialogueGain, itemGain(item, time, composition.audioFade));
+            setGain(musicGainNode, musicGain(time, layout.duration, ranges, composition.music));
+
+            report({
+              segmentIndex: item.kind === 'clip' ? item.clipIndex : item.position === 'intro' ? 0 : segs.length - 1,
+              segmentCount: segs.length,
+              framesDone: Math.min(layout.totalFrames, Math.round(time * frameRate)),
+              totalFrames: layout.totalFrames
+            });
+
+            requestAnimationFrame(renderFrame);
+          };
+          requestAnimationFrame(renderFrame);
+        });
+      }
+
+      if (signal?.aborted) return;
+      setGain(dialogueGain, 0);
+      setGain(musicGainNode, 0);
+      report({ segmentIndex: segs.length - 1, segmentCount: segs.length, framesDone: layout.totalFrames, totalFrames: layout.totalFrames });
+      // 停止录制前稍微等一下，确保最后一帧被捕获
+      setTimeout(() => {
+        if (activeRecorder.state !== 'inactive') activeRecorder.stop();
+      }, 500);
+    };
+
+    sourceVideo.onloadedmetadata = () => {
+      record().catch(error => {
+        if (recorder && recorder.state !== 'inactive') {
+          recorder.onstop = null;
+          recorder.stop();
+        }
+        fail(error);
+      });
+    };
+
+    sourceVideo.onerror = () => fail(new Error("视频加载失败"));
+  });
+};
+
+/**
+ * 渲染入口：优先在 Worker 中离线渲染，其次在主线程用 WebCodecs，最后回退到实时录制。
+ * 取消不会触发回退。
+ */
+export const renderSegments = async (
+  file: File,
+  videoUrl: string,
+  segs: SubtitleSegment[],
+  options: RenderOptions
+): Promise<Blob> => {
+  if (isWorkerRenderSupported()) {
+    try {
+      return await renderInWorker(file, segs, options);
+    } catch (error) {
+      if (error instanceof RenderCancelledError) throw error;
+      console.warn("Worker 渲染失败，改在主线程渲染", error);
+    }
+  }
+  throwIfAborted(options.signal);
+  if (isWebCodecsRenderSupported()) {
+    try {
+      return await renderWithWebCodecs(file, segs, options);
+    } catch (error) {
+      if (error instanceof RenderCancelledError) throw error;
+      console.warn("WebCodecs 渲染失败，回退到实时录制", error);
+      options.onMessage?.("离线渲染不可用，改用实时录制...");
+    }
+  }
+  throwIfAborted(options.signal);
+  return renderWithMediaRecorder(videoUrl, segs, options);
+};
@@ -0,0 +1,41 @@
+/**
+ * 渲染 Worker：在 OffscreenCanvas 上运行 WebCodecs 离线渲染，
+ * 把进度、提示和结果以 RenderWorkerEvent 发回主线程。
+ */
+import { RenderCancelledError, RenderWorkerEvent, RenderWorkerRequest, renderWithWebCodecs } from "./renderEngine";
+
+let controller: AbortController | null = null;
+
+const post = (event: RenderWorkerEvent) => self.postMessage(event);
+
+self.onmessage = async (e: MessageEvent<RenderWorkerRequest>) => {
+  const request = e.data;
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+  if (controller) return;
+
+  controller = new AbortController();
+  try {
+    const blob = await renderWithWebCodecs(request.file, request.segments, {
+      style: request.style,
+      captions: request.captions,
+      composition: request.composition,
+      music: request.music,
+      settings: request.settings,
+      signal: controller.signal,
+      onProgress: progress => post({ type: 'progress', progress }),
+      onMessage: message => post({ type: 'message', message })
+    });
+    post({ type: 'done', blob });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof RenderCancelledError
+    });
+  } finally {
+    controller = null;
+  }
+};
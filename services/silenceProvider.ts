@@ -0,0 +1,18 @@
+import { SilenceSettings } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { analyzeSilence } from "./audioAnalysis";
+import { silenceToSegments } from "../utils/silence";
+
+/**
+ * 完全在本地运行的分析：按静音切分语音，不做转录，片段文本需手动填写。
+ */
+export const createSilenceProvider = (options: SilenceSettings): AnalysisProvider => ({
+  id: 'silence',
+  label: '本地静音检测',
+  analyze: async (videoFile, onProgress) => {
+    onProgress("正在解码音轨...", 0.1);
+    const { silences, duration } = await analyzeSilence(videoFile, options);
+    onProgress(`检测到 ${silences.length} 段静音`, 1);
+    return { segments: silenceToSegments(silences, duration), issues: [] };
+  }
+});
@@ -6,6 +6,19 @@ export interface SubtitleSegment {
   text: string;
   isRedundant: boolean;
   confidence: number;
+  // 各目标语言的译文，键为语言代码；text 始终是原文
+  translations?: Record<string, string>;
+  // 改变画幅时的裁剪窗口关键帧，仅对剪辑队列中的片段有效
+  crop?: CropKeyframe[];
+  // 从队列中上一个片段切到本片段的转场，未设置时使用全局默认转场
+  transition?: ClipTransition;
+}
+
+// 裁剪窗口中心在源画面中的相对位置（0-1），time 为相对片段起点的秒数
+export interface CropKeyframe {
+  time: number;
+  x: number;
+  y: number;
 }
 
 export interface VideoMetadata {
@@ -29,3 +42,236 @@ export interface ProcessingStep {
   label: string;
   status: 'pending' | 'loading' | 'completed' | 'error';
 }
+
+// 用于在视频 Blob 丢失时重新关联本地文件
+export interface VideoFingerprint {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  duration: number;
+}
+
+export type SubtitlePosition = 'top' | 'middle' | 'bottom' | 'custom';
+export type SubtitleAlign = 'left' | 'center' | 'right';
+
+// 字号、描边、边距等像素值均以 1080p 画面为基准，渲染时按实际高度等比缩放
+export interface SubtitleStyle {
+  fontFamily: string;
+  bold: boolean;
+  fontSize: number;
+  color: string;
+  outlineColor: string;
+  outlineOpacity: number;
+  outlineWidth: number;
+  backgroundEnabled: boolean;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  backgroundPadding: number;
+  position: SubtitlePosition;
+  // 距画面上/下边缘的比例，用于 top/bottom
+  marginV: number;
+  // 文本块中心在画面中的纵向比例，用于 custom
+  customY: number;
+  align: SubtitleAlign;
+  lineSpacing: number;
+  maxLines: number;
+  maxWidthRatio: number;
+}
+
+export interface SubtitleStylePreset {
+  name: string;
+  style: SubtitleStyle;
+  builtIn?: boolean;
+}
+
+// 可撤销的编辑状态：字幕列表与剪辑队列
+export interface EditSnapshot {
+  segments: SubtitleSegment[];
+  selectedSegments: SubtitleSegment[];
+}
+
+export interface HistoryEntry {
+  label: string;
+  // 相同键且间隔很短的连续编辑合并为一条记录（如拖动修剪）
+  coalesceKey?: string;
+  timestamp: number;
+  before: EditSnapshot;
+  after: EditSnapshot;
+}
+
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// 项目文件中的快照只记录片段在 PackedHistory.segments 池中的下标
+export interface PackedSnapshot {
+  segments: number[];
+  selectedSegments: number[];
+}
+
+export interface PackedHistoryEntry extends Omit<HistoryEntry, 'before' | 'after'> {
+  before: PackedSnapshot;
+  after: PackedSnapshot;
+}
+
+// 持久化的撤销历史：各快照中相同的片段只保存一份，相邻记录之间只多出改动过的片段
+export interface PackedHistory {
+  segments: SubtitleSegment[];
+  past: PackedHistoryEntry[];
+  future: PackedHistoryEntry[];
+}
+
+export interface ProjectData {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  video: VideoFingerprint;
+  segments: SubtitleSegment[];
+  selectedSegments: SubtitleSegment[];
+  style: SubtitleStyle;
+  history: PackedHistory;
+  captions: CaptionSettings;
+  composition: CompositionSettings;
+}
+
+export type AnalysisProviderId = 'gemini' | 'fixture' | 'http' | 'silence';
+
+// 本地音频静音检测参数
+export interface SilenceSettings {
+  // 低于该电平（dBFS）的帧视为静音
+  thresholdDb: number;
+  // 连续静音至少持续该时长（秒）才算一段静音
+  minSilence: number;
+  // 片段边界吸附到语音起止点的最大移动距离（秒）
+  snapRange: number;
+  // 其他服务分析完成后是否自动用音频校准边界
+  refineAfterAnalysis: boolean;
+}
+
+export interface AnalysisSettings {
+  providerId: AnalysisProviderId;
+  gemini: {
+    apiKey: string;
+    model: string;
+  };
+  http: {
+    endpoint: string;
+    language: string;
+    authToken: string;
+  };
+  fixture: {
+    // 手动载入的录制结果（JSON 文本），在找不到与视频匹配的录制时使用
+    fallbackJson: string;
+  };
+  silence: SilenceSettings;
+  // 是否把 API Key 与访问令牌保存到本机；默认只保留在内存中，刷新页面后需重新填写
+  rememberCredentials: boolean;
+}
+
+export type AnalysisIssueKind =
+  | 'parse'
+  | 'dropped'
+  | 'defaulted'
+  | 'swapped'
+  | 'clamped'
+  | 'overlap'
+  | 'duplicateId'
+  | 'snapped'
+  | 'silent';
+
+// 模型输出在进入界面前被发现并修复（或丢弃）的问题
+export interface AnalysisIssue {
+  kind: AnalysisIssueKind;
+  message: string;
+  segmentId?: string;
+}
+
+export interface AnalysisResult {
+  segments: SubtitleSegment[];
+  issues: AnalysisIssue[];
+}
+
+// 'source' 表示原文，其余为目标语言代码
+export type CaptionLanguage = string;
+
+export type CaptionMode = 'single' | 'bilingual';
+
+// 烧录字幕的语言与双语排版；第二行使用独立样式
+export interface CaptionSettings {
+  mode: CaptionMode;
+  primaryLanguage: CaptionLanguage;
+  secondaryLanguage: CaptionLanguage;
+  secondaryStyle: SubtitleStyle;
+}
+
+export type TransitionKind = 'cut' | 'crossfade' | 'dipToBlack';
+
+export interface ClipTransition {
+  kind: TransitionKind;
+  // 转场总时长（秒）；硬切时忽略
+  duration: number;
+}
+
+// 片头/片尾卡片；image 为 data URL，随项目一起保存
+export interface TitleCard {
+  enabled: boolean;
+  title: string;
+  subtitle: string;
+  image: string | null;
+  duration: number;
+  background: string;
+  textColor: string;
+}
+
+export interface BackgroundMusicSettings {
+  // 音乐基准音量（0-1）
+  volume: number;
+  // 有人声的片段播放时，音乐降到基准音量的该比例
+  duckLevel: number;
+}
+
+// 成片合成设置：转场、片头片尾与背景音乐
+export interface CompositionSettings {
+  transition: ClipTransition;
+  // 硬切处音频的淡入淡出时长（秒），消除切点爆音
+  audioFade: number;
+  intro: TitleCard;
+  outro: TitleCard;
+  music: BackgroundMusicSettings;
+}
+
+export interface RenderProgress {
+  segmentIndex: number;
+  segmentCount: number;
+  framesDone: number;
+  totalFrames: number;
+  percent: number;
+  // 根据已用时间和完成比例估算，刚开始时无法估计
+  etaSeconds: number | null;
+}
+
+export type ExportContainer = 'webm' | 'mp4';
+export type ExportVideoCodec = 'vp8' | 'vp9' | 'av1' | 'avc' | 'hevc';
+export type ExportQuality = 'low' | 'medium' | 'high' | 'custom';
+
+export type AspectPreset = 'source' | '16:9' | '9:16' | '1:1' | '4:5';
+
+// 画幅与源视频不同时的填充方式：裁剪、加黑边或模糊背景
+export type FrameFit = 'crop' | 'letterbox' | 'blur';
+
+export interface ExportSettings {
+  container: ExportContainer;
+  aspect: AspectPreset;
+  fit: FrameFit;
+  videoCodec: ExportVideoCodec;
+  // 相对源视频分辨率的缩放比例
+  scale: number;
+  frameRate: number;
+  quality: ExportQuality;
+  // quality 为 custom 时使用，单位 bps
+  videoBitrate: number;
+}
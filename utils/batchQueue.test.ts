@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment } from '../types';
+import { BatchRenderContext, DEFAULT_BATCH_SETTINGS, batchOutputFiles, createBatchJob } from './batchQueue';
+import { DEFAULT_COMPOSITION_SETTINGS } from './composition';
+import { DEFAULT_SUBTITLE_STYLE } from './subtitleStyle';
+import { DEFAULT_CAPTION_SETTINGS } from './translation';
+import { DEFAULT_EXPORT_SETTINGS } from './exportSettings';
+
+const clip: SubtitleSegment = { id: '1', startTime: 10, endTime: 12, text: '你好', isRedundant: false, confidence: 1 };
+
+const render = (introDuration: number): BatchRenderContext => ({
+  style: DEFAULT_SUBTITLE_STYLE,
+  captions: DEFAULT_CAPTION_SETTINGS,
+  composition: {
+    ...DEFAULT_COMPOSITION_SETTINGS,
+    intro: { ...DEFAULT_COMPOSITION_SETTINGS.intro, enabled: introDuration > 0, duration: introDuration }
+  },
+  music: null,
+  exportSettings: DEFAULT_EXPORT_SETTINGS
+});
+
+describe('batchOutputFiles', () => {
+  it('rebases each job\'s edit subtitles with the composition it was queued with', async () => {
+    const jobs = [
+      { ...createBatchJob(new File([], 'a.mp4'), DEFAULT_BATCH_SETTINGS, render(0)), clips: [clip] },
+      { ...createBatchJob(new File([], 'b.mp4'), DEFAULT_BATCH_SETTINGS, render(3)), clips: [clip] }
+    ];
+    const files = batchOutputFiles(jobs, 'srt');
+    const texts = await Promise.all(files.map(f => f.data.text()));
+    expect(files.map(f => f.name)).toEqual(['a_edit.srt', 'b_edit.srt']);
+    expect(texts[0]).toContain('00:00:00,000 --> 00:00:02,000');
+    expect(texts[1]).toContain('00:00:03,000 --> 00:00:05,000');
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  AppStatus,
+  CaptionSettings,
+  CompositionSettings,
+  ExportSettings,
+  ProcessingStep,
+  SubtitleSegment,
+  SubtitleStyle
+} from "../types";
+import { SUBTITLE_MIME_TYPES, SubtitleFormat, formatSubtitles } from "./subtitleFormats";
+import { rebaseToComposition } from "./composition";
+import { extensionForMimeType } from "./exportSettings";
+import { baseName } from "./download";
+import { ZipEntry, uniqueFileNames } from "./zip";
+
+export interface BatchSettings {
+  // 同时处理的任务数；渲染始终逐个进行
+  concurrency: number;
+  // 分析完成后按粗剪规则自动生成剪辑队列
+  autoCut: boolean;
+  // 自动渲染成片；未开启粗剪时渲染全部有效片段
+  render: boolean;
+  subtitleFormat: SubtitleFormat;
+}
+
+// 加入队列时的字幕样式与成片设置快照。渲染、保存项目和打包字幕都使用它，
+// 之后在编辑界面打开或修改其他项目不会影响队列中的任务
+export interface BatchRenderContext {
+  style: SubtitleStyle;
+  captions: CaptionSettings;
+  composition: CompositionSettings;
+  music: Blob | null;
+  exportSettings: ExportSettings;
+}
+
+export type BatchStepId = 'analyze' | 'cut' | 'render';
+
+export interface BatchStep extends ProcessingStep {
+  id: BatchStepId;
+}
+
+/**
+ * 批量队列中的一个视频。status 沿用编辑界面的 AppStatus：
+ * IDLE 排队、ANALYZING 分析中、READY 等待渲染、GENERATING 渲染中、COMPLETED 完成；
+ * 失败时保留出错阶段的状态并记录 error。
+ */
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: AppStatus;
+  steps: BatchStep[];
+  message: string;
+  progress: number | null;
+  error: string | null;
+  projectId: string | null;
+  duration: number;
+  segments: SubtitleSegment[];
+  clips: SubtitleSegment[];
+  output: Blob | null;
+  render: BatchRenderContext;
+}
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  concurrency: 2,
+  autoCut: true,
+  render: false,
+  subtitleFormat: 'srt'
+};
+
+export const BATCH_STEP_LABELS: Record<BatchStepId, string> = {
+  analyze: '分析',
+  cut: '粗剪',
+  render: '渲染'
+};
+
+export const BATCH_STATUS_LABELS: Record<AppStatus, string> = {
+  [AppStatus.IDLE]: '排队中',
+  [AppStatus.UPLOADING]: '读取中',
+  [AppStatus.ANALYZING]: '分析中',
+  [AppStatus.READY]: '等待渲染',
+  [AppStatus.GENERATING]: '渲染中',
+  [AppStatus.COMPLETED]: '已完成'
+};
+
+const SETTINGS_KEY = 'novaclip.batchSettings';
+
+export const loadBatchSettings = (): BatchSettings => {
+  try {
+    const saved = { ...DEFAULT_BATCH_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    return { ...saved, concurrency: clampConcurrency(saved.concurrency) };
+  } catch {
+    return DEFAULT_BATCH_SETTINGS;
+  }
+};
+
+export const saveBatchSettings = (settings: BatchSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const clampConcurrency = (value: number) =>
+  Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.round(value) || 1));
+
+export const batchSteps = (settings: BatchSettings): BatchStep[] => {
+  const ids: BatchStepId[] = ['analyze'];
+  if (settings.autoCut) ids.push('cut');
+  if (settings.render) ids.push('render');
+  return ids.map(id => ({ id, label: BATCH_STEP_LABELS[id], status: 'pending' }));
+};
+
+export const createBatchJob = (file: File, settings: BatchSettings, render: BatchRenderContext): BatchJob => ({
+  id: `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  file,
+  status: AppStatus.IDLE,
+  steps: batchSteps(settings),
+  message: '',
+  progress: null,
+  error: null,
+  projectId: null,
+  duration: 0,
+  segments: [],
+  clips: [],
+  output: null,
+  render
+});
+
+export const setStepStatus = (job: BatchJob, id: BatchStepId, status: ProcessingStep['status']): BatchJob => ({
+  ...job,
+  steps: job.steps.map(step => (step.id === id ? { ...step, status } : step))
+});
+
+export const isStepDone = (job: BatchJob, id: BatchStepId) =>
+  job.steps.some(step => step.id === id && step.status === 'completed');
+
+export const isJobQueued = (job: BatchJob) => job.error === null && job.status === AppStatus.IDLE;
+
+export const isJobRunning = (job: BatchJob) =>
+  job.error === null && job.status !== AppStatus.IDLE && job.status !== AppStatus.COMPLETED;
+
+/**
+ * 在并发上限内挑出下一批可以开始的排队任务，按加入顺序。
+ */
+export const jobsToStart = (jobs: BatchJob[], concurrency: number): BatchJob[] => {
+  const free = clampConcurrency(concurrency) - jobs.filter(isJobRunning).length;
+  return free > 0 ? jobs.filter(isJobQueued).slice(0, free) : [];
+};
+
+/**
+ * 失败任务重新排队：已完成的步骤及其结果保留，出错的步骤从头再来。
+ */
+export const retryJob = (job: BatchJob): BatchJob => ({
+  ...job,
+  status: AppStatus.IDLE,
+  error: null,
+  message: '',
+  progress: null,
+  steps: job.steps.map(step => (step.status === 'completed' ? step : { ...step, status: 'pending' }))
+});
+
+export const failJob = (job: BatchJob, error: string): BatchJob => ({
+  ...job,
+  error,
+  progress: null,
+  steps: job.steps.map(step => (step.status === 'loading' ? { ...step, status: 'error' } : step))
+});
+
+const subtitleFile = (name: string, segs: SubtitleSegment[], format: SubtitleFormat): ZipEntry => ({
+  name,
+  data: new Blob([formatSubtitles(segs, format)], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` })
+});
+
+/**
+ * 汇总所有任务的产出：完整字幕、剪辑队列字幕（映射到成片时间轴）和成片。
+ * 不同文件夹中的同名视频会产生同名文件，统一追加序号。
+ */
+export const batchOutputFiles = (jobs: BatchJob[], format: SubtitleFormat): ZipEntry[] => {
+  const entries = jobs.flatMap(job => {
+    const base = baseName(job.file.name);
+    const files: ZipEntry[] = [];
+    if (job.segments.length > 0) files.push(subtitleFile(`${base}.${format}`, job.segments, format));
+    if (job.clips.length > 0) files.push(subtitleFile(`${base}_edit.${format}`, rebaseToComposition(job.clips, job.render.composition, job.render.exportSettings.frameRate), format));
+    if (job.output) files.push({ name: `${base}_NovaClip.${extensionForMimeType(job.output.type)}`, data: job.output });
+    return files;
+  });
+  const names = uniqueFileNames(entries.map(entry => entry.name));
+  return entries.map((entry, i) => ({ ...entry, name: names[i] }));
+};
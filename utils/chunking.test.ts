@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SubtitleSegment } from '../types';
+import { analyzeInWindows, mergeWindowResults, planAnalysisWindows } from './chunking';
+import { ResponseParseError } from './segmentValidation';
+
+const seg = (id: string, startTime: number, endTime: number, text: string): SubtitleSegment => ({
+  id,
+  startTime,
+  endTime,
+  text,
+  isRedundant: false,
+  confidence: 1
+});
+
+describe('planAnalysisWindows', () => {
+  it('returns a single window for short or unknown durations', () => {
+    expect(planAnalysisWindows(0)).toEqual([{ index: 0, start: 0, end: 0 }]);
+    expect(planAnalysisWindows(100)).toEqual([{ index: 0, start: 0, end: 100 }]);
+  });
+
+  it('steps overlapping windows across the whole video', () => {
+    expect(planAnalysisWindows(250).map(w => [w.start, w.end])).toEqual([[0, 120], [112, 232], [224, 250]]);
+  });
+});
+
+describe('mergeWindowResults', () => {
+  it('shifts segments to source time and keeps each one in the window owning its midpoint', () => {
+    const windows = planAnalysisWindows(250);
+    const merged = mergeWindowResults(windows, [
+      [seg('1', 0, 2, '开场'), seg('2', 117, 119, '重叠区')],
+      [seg('1', 5, 7, '重叠区'), seg('2', 50, 52, '中段')],
+      [seg('1', 10, 12, '结尾')]
+    ]);
+    expect(merged.map(s => [s.id, s.startTime, s.endTime])).toEqual([
+      ['w1-1', 0, 2],
+      ['w2-1', 117, 119],
+      ['w2-2', 162, 164],
+      ['w3-1', 234, 236]
+    ]);
+  });
+
+  it('keeps ids unchanged for a single window', () => {
+    expect(mergeWindowResults(planAnalysisWindows(10), [[seg('1', 0, 1, 'a')]])[0].id).toBe('1');
+  });
+
+  it('drops a duplicate that still overlaps after the hand-off', () => {
+    const windows = [{ index: 0, start: 0, end: 20 }, { index: 1, start: 10, end: 30 }];
+    const merged = mergeWindowResults(windows, [[seg('1', 13, 16, '同一句。')], [seg('1', 4, 8, '同一句')]]);
+    expect(merged.map(s => s.id)).toEqual(['w1-1']);
+  });
+});
+
+describe('analyzeInWindows', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries a failing window and prefixes its issues with the window label', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const windows = planAnalysisWindows(250);
+    const analyze = vi.fn(async (window: { index: number }) => {
+      if (window.index === 1 && analyze.mock.calls.filter(([w]) => w.index === 1).length === 1) throw new ResponseParseError('boom');
+      return { segments: [seg('1', 10, 11, `窗口${window.index}`)], issues: [{ kind: 'parse' as const, message: '截断' }] };
+    });
+    const result = await analyzeInWindows(windows, analyze, () => {}, { windowSize: 120, overlap: 8, maxAttempts: 2, retryDelayMs: 0 });
+    expect(analyze).toHaveBeenCalledTimes(4);
+    expect(result.segments.map(s => s.text)).toEqual(['窗口0', '窗口1', '窗口2']);
+    expect(result.issues[0].message).toMatch(/^第 1\/3 段 .*: 截断$/);
+  });
+
+  it('does not retry client errors such as an invalid key', async () => {
+    const analyze = vi.fn(async () => { throw Object.assign(new Error('API key not valid'), { status: 401 }); });
+    await expect(analyzeInWindows(planAnalysisWindows(250), analyze, () => {}, { windowSize: 120, overlap: 8, maxAttempts: 3, retryDelayMs: 0 }))
+      .rejects.toThrow(/API key not valid$/);
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports which window failed after the retries run out', async () => {
+    const windows = planAnalysisWindows(250);
+    const analyze = vi.fn(async () => { throw new Error('boom'); });
+    await expect(analyzeInWindows(windows, analyze, () => {}, { windowSize: 120, overlap: 8, maxAttempts: 1, retryDelayMs: 0 }))
+      .rejects.toThrow(/^第 1\/3 段 .*分析失败: boom$/);
+  });
+});
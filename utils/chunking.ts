@@ -0,0 +1,134 @@
+import { AnalysisIssue, AnalysisResult, SubtitleSegment } from "../types";
+import { formatClock } from "./media";
+import { errorMessage, isTransientError, withRetry } from "./retry";
+import { ResponseParseError } from "./segmentValidation";
+
+export interface AnalysisWindow {
+  index: number;
+  start: number;
+  end: number;
+}
+
+export interface ChunkOptions {
+  windowSize: number;
+  overlap: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  windowSize: 120,
+  overlap: 8,
+  maxAttempts: 3,
+  retryDelayMs: 1500
+};
+
+export type ChunkProgress = (msg: string, fraction?: number) => void;
+
+/**
+ * 将时长切分为相互重叠的时间窗口。时长未知（0）时返回单个覆盖全片的窗口。
+ */
+export const planAnalysisWindows = (
+  duration: number,
+  { windowSize, overlap }: Pick<ChunkOptions, 'windowSize' | 'overlap'> = DEFAULT_CHUNK_OPTIONS
+): AnalysisWindow[] => {
+  if (!duration || duration <= windowSize) {
+    return [{ index: 0, start: 0, end: duration }];
+  }
+  const step = windowSize - overlap;
+  const windows: AnalysisWindow[] = [];
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(duration, start + windowSize);
+    windows.push({ index: windows.length, start, end });
+    if (end >= duration) break;
+  }
+  return windows;
+};
+
+// 每个窗口只"拥有"重叠区中点以内的范围，首尾窗口延伸到全片两端
+const ownedRange = (windows: AnalysisWindow[], i: number) => {
+  const prev = windows[i - 1];
+  const next = windows[i + 1];
+  return {
+    from: prev ? (windows[i].start + prev.end) / 2 : -Infinity,
+    to: next ? (next.start + windows[i].end) / 2 : Infinity
+  };
+};
+
+const normalizeText = (text: string) => text.replace(/[\s\p{P}]/gu, '').toLowerCase();
+
+/**
+ * 把各窗口的结果偏移回原视频时间轴并去除重叠区内的重复片段。
+ * 片段以中点归属窗口；跨界后仍然重叠且文本相同的片段只保留一条。
+ */
+export const mergeWindowResults = (
+  windows: AnalysisWindow[],
+  results: SubtitleSegment[][]
+): SubtitleSegment[] => {
+  const merged: SubtitleSegment[] = [];
+
+  windows.forEach((window, i) => {
+    const { from, to } = ownedRange(windows, i);
+    for (const seg of results[i] ?? []) {
+      const shifted = {
+        ...seg,
+        id: windows.length > 1 ? `w${window.index + 1}-${seg.id}` : seg.id,
+        startTime: seg.startTime + window.start,
+        endTime: seg.endTime + window.start
+      };
+      const mid = (shifted.startTime + shifted.endTime) / 2;
+      if (mid < from || mid >= to) continue;
+      merged.push(shifted);
+    }
+  });
+
+  merged.sort((a, b) => a.startTime - b.startTime);
+  return merged.filter((seg, i) => {
+    const prev = merged[i - 1];
+    return !prev
+      || prev.endTime <= seg.startTime
+      || normalizeText(prev.text) !== normalizeText(seg.text);
+  });
+};
+
+// 只有解析失败和临时故障值得整段重试；密钥无效、请求错误等重试也不会成功
+const isRetryableWindowError = (error: unknown) =>
+  error instanceof ResponseParseError || isTransientError(error);
+
+/**
+ * 逐个窗口执行分析，解析失败或临时故障的窗口单独重试，不影响已完成的窗口。
+ * analyzeWindow 返回的时间戳应相对于窗口起点。
+ */
+export const analyzeInWindows = async (
+  windows: AnalysisWindow[],
+  analyzeWindow: (window: AnalysisWindow) => Promise<AnalysisResult>,
+  onProgress: ChunkProgress,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): Promise<AnalysisResult> => {
+  const results: SubtitleSegment[][] = [];
+  const issues: AnalysisIssue[] = [];
+
+  for (const window of windows) {
+    const label = `第 ${window.index + 1}/${windows.length} 段 (${formatClock(window.start)} - ${formatClock(window.end)})`;
+    onProgress(`正在分析${label}...`, window.index / windows.length);
+
+    try {
+      const result = await withRetry(() => analyzeWindow(window), {
+        maxAttempts: options.maxAttempts,
+        baseDelayMs: options.retryDelayMs,
+        shouldRetry: isRetryableWindowError,
+        onRetry: (attempt, error) => {
+          console.warn(`分析${label}失败`, error);
+          onProgress(`正在重试${label}（第 ${attempt} 次）...`, window.index / windows.length);
+        }
+      });
+      results[window.index] = result.segments;
+      issues.push(...result.issues.map(issue => ({ ...issue, message: `${label}: ${issue.message}` })));
+    } catch (error) {
+      throw new Error(`${label}分析失败: ${errorMessage(error)}`);
+    }
+  }
+
+  onProgress("正在合并分段结果...", 1);
+  return { segments: mergeWindowResults(windows, results), issues };
+};
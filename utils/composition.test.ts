@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { CompositionSettings, SubtitleSegment, TransitionKind } from '../types';
+import {
+  DEFAULT_COMPOSITION_SETTINGS,
+  buildComposition,
+  duckWeight,
+  itemGain,
+  layerVisual,
+  musicGain,
+  rebaseToComposition,
+  speechRanges
+} from './composition';
+
+// 帧率取 10，便于按整帧核对
+const FPS = 10;
+
+const clip = (id: string, startTime: number, endTime: number): SubtitleSegment => ({
+  id,
+  startTime,
+  endTime,
+  text: id,
+  isRedundant: false,
+  confidence: 1
+});
+
+const clips = [clip('a', 0, 2), clip('b', 5, 6), clip('c', 10, 13)];
+
+const withTransition = (kind: TransitionKind, duration: number): CompositionSettings => ({
+  ...DEFAULT_COMPOSITION_SETTINGS,
+  transition: { kind, duration }
+});
+
+const spans = (settings: CompositionSettings, allowOverlap = true) =>
+  buildComposition(clips, settings, FPS, allowOverlap).items.map(item => [item.start, item.start + item.duration]);
+
+describe('buildComposition', () => {
+  it('butts clips together with hard cuts', () => {
+    const layout = buildComposition(clips, withTransition('cut', 0.5), FPS);
+    expect(spans(withTransition('cut', 0.5))).toEqual([[0, 2], [2, 3], [3, 6]]);
+    expect(layout.totalFrames).toBe(60);
+    expect(layout.items.every(item => item.fadeIn.kind === 'cut' && item.fadeOut.kind === 'cut')).toBe(true);
+  });
+
+  it('overlaps clips by the crossfade duration', () => {
+    const layout = buildComposition(clips, withTransition('crossfade', 0.5), FPS);
+    expect(spans(withTransition('crossfade', 0.5))).toEqual([[0, 2], [1.5, 2.5], [2, 5]]);
+    expect(layout.duration).toBe(5);
+    expect(layout.items[0].fadeOut).toEqual({ kind: 'crossfade', duration: 0.5 });
+    expect(layout.items[1].fadeIn).toEqual({ kind: 'crossfade', duration: 0.5 });
+  });
+
+  it('limits a crossfade to half of the shorter neighbour', () => {
+    const layout = buildComposition(clips, withTransition('crossfade', 2), FPS);
+    expect(layout.items[1].fadeIn.duration).toBe(0.5);
+  });
+
+  it('keeps clips end to end for a dip to black', () => {
+    expect(spans(withTransition('dipToBlack', 0.4))).toEqual([[0, 2], [2, 3], [3, 6]]);
+  });
+
+  it('degrades crossfades to dips when layers cannot overlap', () => {
+    const layout = buildComposition(clips, withTransition('crossfade', 0.5), FPS, false);
+    expect(layout.duration).toBe(6);
+    expect(layout.items[1].fadeIn.kind).toBe('dipToBlack');
+  });
+
+  it('lets a clip override the default transition', () => {
+    const overridden = [clips[0], { ...clips[1], transition: { kind: 'crossfade' as const, duration: 0.5 } }, clips[2]];
+    const layout = buildComposition(overridden, withTransition('cut', 0.5), FPS);
+    expect(layout.items.map(item => item.fadeIn.kind)).toEqual(['cut', 'crossfade', 'cut']);
+    expect(layout.duration).toBe(5.5);
+  });
+
+  it('places intro and outro cards around the clips', () => {
+    const settings: CompositionSettings = {
+      ...withTransition('cut', 0.5),
+      intro: { ...DEFAULT_COMPOSITION_SETTINGS.intro, enabled: true, duration: 1.5 },
+      outro: { ...DEFAULT_COMPOSITION_SETTINGS.outro, enabled: true, duration: 2 }
+    };
+    const layout = buildComposition(clips, settings, FPS);
+    expect(layout.items.map(item => item.kind === 'card' ? item.position : item.clip.id)).toEqual(['intro', 'a', 'b', 'c', 'outro']);
+    expect(layout.duration).toBe(9.5);
+  });
+});
+
+describe('rebaseToComposition', () => {
+  it('maps queued clips to their times in the rendered output', () => {
+    const settings: CompositionSettings = {
+      ...withTransition('crossfade', 0.5),
+      intro: { ...DEFAULT_COMPOSITION_SETTINGS.intro, enabled: true, duration: 1 }
+    };
+    expect(rebaseToComposition(clips, settings, FPS).map(s => [s.id, s.startTime, s.endTime]))
+      .toEqual([['a', 0.5, 2.5], ['b', 2, 3], ['c', 2.5, 5.5]]);
+  });
+});
+
+describe('layerVisual and itemGain', () => {
+  const [first, second] = buildComposition(clips, withTransition('crossfade', 0.5), FPS).items;
+
+  it('fades the incoming layer in over the outgoing one', () => {
+    expect(layerVisual(first, 1.75)).toEqual({ alpha: 1, brightness: 1 });
+    expect(layerVisual(second, 1.75).alpha).toBeCloseTo(0.5);
+  });
+
+  it('uses equal-power gains across a crossfade', () => {
+    const a = itemGain(first, 1.75, 0);
+    const b = itemGain(second, 1.75, 0);
+    expect(a * a + b * b).toBeCloseTo(1);
+  });
+
+  it('darkens both sides of a dip to black', () => {
+    const [, dipped] = buildComposition(clips, withTransition('dipToBlack', 0.4), FPS).items;
+    expect(layerVisual(dipped, 2.1).brightness).toBeCloseTo(0.5);
+    expect(layerVisual(dipped, 2.5).brightness).toBe(1);
+  });
+
+  it('ramps audio over audioFade at hard cuts', () => {
+    const [cutClip] = buildComposition(clips, withTransition('cut', 0.5), FPS).items;
+    expect(itemGain(cutClip, 0.01, 0.02)).toBeCloseTo(0.5);
+    expect(itemGain(cutClip, 1, 0.02)).toBe(1);
+  });
+});
+
+describe('music ducking', () => {
+  it('merges overlapping clips into speech ranges', () => {
+    expect(speechRanges(buildComposition(clips, withTransition('crossfade', 0.5), FPS))).toEqual([{ start: 0, end: 5 }]);
+  });
+
+  it('ramps the duck weight around speech', () => {
+    const ranges = [{ start: 4, end: 6 }];
+    expect(duckWeight(5, ranges)).toBe(1);
+    expect(duckWeight(6.15, ranges)).toBeCloseTo(0.5);
+    expect(duckWeight(8, ranges)).toBe(0);
+  });
+
+  it('lowers music under speech and fades it at both ends', () => {
+    const ranges = [{ start: 4, end: 6 }];
+    const music = { volume: 0.3, duckLevel: 0.25 };
+    expect(musicGain(5, 10, ranges, music)).toBeCloseTo(0.075);
+    expect(musicGain(2, 10, ranges, music)).toBeCloseTo(0.3);
+    expect(musicGain(0, 10, ranges, music)).toBe(0);
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  BackgroundMusicSettings,
+  ClipTransition,
+  CompositionSettings,
+  SubtitleSegment,
+  TitleCard,
+  TransitionKind
+} from "../types";
+import { SubtitleContext } from "./subtitleRenderer";
+import { breakLines } from "./lineBreak";
+import { containRect } from "./reframe";
+import { TimeRange } from "./silence";
+
+export const TRANSITION_LABELS: Record<TransitionKind, string> = {
+  cut: '硬切',
+  crossfade: '交叉溶解',
+  dipToBlack: '黑场过渡'
+};
+
+export const MAX_TRANSITION_DURATION = 2;
+
+// 背景音乐避让人声时的过渡时长，以及成片首尾的音乐淡入淡出（秒）
+const DUCK_RAMP = 0.3;
+const MUSIC_FADE = 1.5;
+
+const CUT: ClipTransition = { kind: 'cut', duration: 0 };
+
+export const DEFAULT_TITLE_CARD: TitleCard = {
+  enabled: false,
+  title: '',
+  subtitle: '',
+  image: null,
+  duration: 3,
+  background: '#0f172a',
+  textColor: '#ffffff'
+};
+
+export const DEFAULT_COMPOSITION_SETTINGS: CompositionSettings = {
+  transition: { kind: 'cut', duration: 0.5 },
+  audioFade: 0.02,
+  intro: DEFAULT_TITLE_CARD,
+  outro: DEFAULT_TITLE_CARD,
+  music: { volume: 0.3, duckLevel: 0.25 }
+};
+
+// 每个片段按输出帧率取整为整数帧，音频按同样的时长截取，保证切点处音画对齐
+export const segmentFrameCount = (seg: SubtitleSegment, frameRate: number) =>
+  Math.max(1, Math.round((seg.endTime - seg.startTime) * frameRate));
+
+interface CompositionItemBase {
+  // 在成片时间轴上的起点与时长（秒），均对齐到整帧
+  start: number;
+  duration: number;
+  // 进入与离开本项的实际转场，时长已按相邻项长度收紧
+  fadeIn: ClipTransition;
+  fadeOut: ClipTransition;
+}
+
+type CompositionContent =
+  | { kind: 'clip'; clip: SubtitleSegment; clipIndex: number }
+  | { kind: 'card'; card: TitleCard; position: 'intro' | 'outro' };
+
+export type CompositionItem = CompositionContent & CompositionItemBase;
+
+export interface CompositionLayout {
+  items: CompositionItem[];
+  totalFrames: number;
+  duration: number;
+}
+
+export const boundaryTransition = (clip: SubtitleSegment, settings: CompositionSettings) =>
+  clip.transition ?? settings.transition;
+
+/**
+ * 把片头卡、剪辑队列和片尾卡排到成片时间轴上。
+ * 交叉溶解让后一项提前开始、与前一项重叠；黑场过渡各占两侧一半，不重叠。
+ * allowOverlap 为 false 时（实时录制只有一路画面）交叉溶解退化为黑场过渡。
+ */
+export const buildComposition = (
+  clips: SubtitleSegment[],
+  settings: CompositionSettings,
+  frameRate: number,
+  allowOverlap = true
+): CompositionLayout => {
+  // requested 为进入该项时请求的转场，片头片尾卡使用全局默认转场
+  const entries: { content: CompositionContent; frames: number; requested: ClipTransition }[] = clips.map((clip, clipIndex) => ({
+    content: { kind: 'clip', clip, clipIndex },
+    frames: segmentFrameCount(clip, frameRate),
+    requested: boundaryTransition(clip, settings)
+  }));
+  const cardEntry = (card: TitleCard, position: 'intro' | 'outro') => ({
+    content: { kind: 'card' as const, card, position },
+    frames: Math.max(1, Math.round(card.duration * frameRate)),
+    requested: settings.transition
+  });
+  if (settings.intro.enabled) entries.unshift(cardEntry(settings.intro, 'intro'));
+  if (settings.outro.enabled) entries.push(cardEntry(settings.outro, 'outro'));
+
+  const items: CompositionItem[] = [];
+  let cursor = 0;
+  entries.forEach(({ content, frames, requested }, i) => {
+    let fadeIn = CUT;
+    if (i > 0) {
+      const prev = items[i - 1];
+      const prevFrames = entries[i - 1].frames;
+      const kind = requested.kind === 'crossfade' && !allowOverlap ? 'dipToBlack' : requested.kind;
+      const limit = kind === 'crossfade' ? Math.floor(Math.min(prevFrames, frames) / 2) : Math.min(prevFrames, frames);
+      const transitionFrames = kind === 'cut' ? 0 : Math.min(limit, Math.round(requested.duration * frameRate));
+      if (transitionFrames > 0) {
+        fadeIn = { kind, duration: transitionFrames / frameRate };
+        prev.fadeOut = fadeIn;
+        if (kind === 'crossfade') cursor -= transitionFrames;
+      }
+    }
+    items.push({ ...content, start: cursor / frameRate, duration: frames / frameRate, fadeIn, fadeOut: CUT });
+    cursor += frames;
+  });
+
+  return { items, totalFrames: cursor, duration: cursor / frameRate };
+};
+
+/**
+ * 剪辑队列字幕在成片中的实际时间：计入片头卡与交叉溶解造成的偏移，与渲染结果一致。
+ */
+export const rebaseToComposition = (
+  clips: SubtitleSegment[],
+  settings: CompositionSettings,
+  frameRate: number
+): SubtitleSegment[] =>
+  buildComposition(clips, settings, frameRate).items.flatMap(item =>
+    item.kind === 'clip' ? [{ ...item.clip, startTime: item.start, endTime: item.start + item.duration }] : []
+  );
+
+export const activeItems = (layout: CompositionLayout, time: number) =>
+  layout.items.filter(item => time >= item.start && time < item.start + item.duration);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * 某一时刻图层的不透明度（交叉溶解的后一项）和亮度（黑场过渡）。
+ * 交叉溶解时前一项保持不透明，后一项叠在上面逐渐显现。
+ */
+export const layerVisual = (item: CompositionItem, time: number) => {
+  const elapsed = time - item.start;
+  const remaining = item.start + item.duration - time;
+  let alpha = 1;
+  let brightness = 1;
+  if (item.fadeIn.kind === 'crossfade') alpha = clamp01(elapsed / item.fadeIn.duration);
+  if (item.fadeIn.kind === 'dipToBlack') brightness = Math.min(brightness, clamp01(elapsed / (item.fadeIn.duration / 2)));
+  if (item.fadeOut.kind === 'dipToBlack') brightness = Math.min(brightness, clamp01(remaining / (item.fadeOut.duration / 2)));
+  return { alpha, brightness };
+};
+
+// 交叉溶解用等功率曲线，避免重叠处音量下陷；硬切处用很短的线性淡变去掉爆音
+const edgeGain = (fade: ClipTransition, distance: number, audioFade: number) => {
+  switch (fade.kind) {
+    case 'crossfade': return Math.sin((Math.PI / 2) * clamp01(distance / fade.duration));
+    case 'dipToBlack': return clamp01(distance / (fade.duration / 2));
+    default: return audioFade > 0 ? clamp01(distance / audioFade) : 1;
+  }
+};
+
+export const itemGain = (item: CompositionItem, time: number, audioFade: number) =>
+  edgeGain(item.fadeIn, time - item.start, audioFade) * edgeGain(item.fadeOut, item.start + item.duration - time, audioFade);
+
+// 成片中有人声的区间（所有剪辑片段，重叠的合并）
+export const speechRanges = (layout: CompositionLayout): TimeRange[] =>
+  layout.items
+    .filter(item => item.kind === 'clip')
+    .reduce<TimeRange[]>((ranges, item) => {
+      const last = ranges[ranges.length - 1];
+      const end = item.start + item.duration;
+      if (last && item.start <= last.end) last.end = Math.max(last.end, end);
+      else ranges.push({ start: item.start, end });
+      return ranges;
+    }, []);
+
+// 距最近人声区间的远近换算为 0-1 的避让权重，区间内为 1，边缘外按 DUCK_RAMP 线性过渡
+export const duckWeight = (time: number, ranges: TimeRange[]) => {
+  let low = 0;
+  let high = ranges.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid].end < time) low = mid + 1;
+    else high = mid;
+  }
+  let weight = 0;
+  for (const range of [ranges[low - 1], ranges[low]]) {
+    if (!range) continue;
+    const distance = time < range.start ? range.start - time : time > range.end ? time - range.end : 0;
+    weight = Math.max(weight, 1 - distance / DUCK_RAMP);
+  }
+  return clamp01(weight);
+};
+
+export const musicGain = (time: number, duration: number, ranges: TimeRange[], music: BackgroundMusicSettings) => {
+  const edge = clamp01(Math.min(time, duration - time) / MUSIC_FADE);
+  return music.volume * (1 - (1 - music.duckLevel) * duckWeight(time, ranges)) * edge;
+};
+
+export type CardImage = ImageBitmap;
+
+// 卡片图片以 data URL 保存；fetch 与 createImageBitmap 在 Worker 中同样可用
+export const loadCardImage = async (dataUrl: string | null): Promise<CardImage | null> => {
+  if (!dataUrl) return null;
+  const blob = await (await fetch(dataUrl)).blob();
+  return createImageBitmap(blob);
+};
+
+/**
+ * 绘制片头/片尾卡：纯色背景，图片居中（有文字时位于上方），标题与副标题居中换行。
+ */
+export const drawTitleCard = (
+  ctx: SubtitleContext,
+  card: TitleCard,
+  image: CardImage | null,
+  width: number,
+  height: number
+) => {
+  ctx.save();
+  ctx.fillStyle = card.background;
+  ctx.fillRect(0, 0, width, height);
+
+  const hasText = !!(card.title.trim() || card.subtitle.trim());
+  if (image) {
+    const box = hasText
+      ? { x: width * 0.2, y: height * 0.1, width: width * 0.6, height: height * 0.45 }
+      : { x: width * 0.1, y: height * 0.1, width: width * 0.8, height: height * 0.8 };
+    const fitted = containRect(image.width, image.height, box.width, box.height);
+    ctx.drawImage(image, box.x + fitted.x, box.y + fitted.y, fitted.width, fitted.height);
+  }
+
+  if (hasText) {
+    const titleSize = Math.round(Math.min(width, height) * 0.08);
+    const subtitleSize = Math.round(titleSize * 0.55);
+    const maxWidth = width * 0.8;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = card.textColor;
+
+    ctx.font = `bold ${titleSize}px Inter, sans-serif`;
+    const titleLines = breakLines(card.title, maxWidth, text => ctx.measureText(text).width);
+    ctx.font = `${subtitleSize}px Inter, sans-serif`;
+    const subtitleLines = breakLines(card.subtitle, maxWidth, text => ctx.measureText(text).width);
+
+    const blockHeight = titleLines.length * titleSize * 1.25 + subtitleLines.length * subtitleSize * 1.4
+      + (titleLines.length > 0 && subtitleLines.length > 0 ? subtitleSize : 0);
+    let y = (image ? height * 0.72 : height / 2) - blockHeight / 2;
+
+    ctx.font = `bold ${titleSize}px Inter, sans-serif`;
+    for (const line of titleLines) {
+      ctx.fillText(line, width / 2, y + titleSize * 0.625);
+      y += titleSize * 1.25;
+    }
+    if (titleLines.length > 0 && subtitleLines.length > 0) y += subtitleSize;
+    ctx.font = `${subtitleSize}px Inter, sans-serif`;
+    ctx.globalAlpha *= 0.75;
+    for (const line of subtitleLines) {
+      ctx.fillText(line, width / 2, y + subtitleSize * 0.7);
+      y += subtitleSize * 1.4;
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * 按图层的不透明度与亮度绘制一项内容：先画内容，再叠一层黑色实现黑场。
+ */
+export const drawLayer = (
+  ctx: SubtitleContext,
+  visual: { alpha: number; brightness: number },
+  width: number,
+  height: number,
+  drawContent: () => void
+) => {
+  ctx.save();
+  ctx.globalAlpha = visual.alpha;
+  drawContent();
+  if (visual.brightness < 1) {
+    ctx.globalAlpha = visual.alpha * (1 - visual.brightness);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.restore();
+};
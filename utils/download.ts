@@ -0,0 +1,13 @@
+// 通过临时 <a> 元素触发浏览器下载
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
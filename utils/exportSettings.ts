@@ -0,0 +1,108 @@
+import { ExportContainer, ExportQuality, ExportSettings, ExportVideoCodec } from "../types";
+import { aspectFrameSize } from "./reframe";
+
+export const CONTAINER_CODECS: Record<ExportContainer, ExportVideoCodec[]> = {
+  webm: ['vp9', 'vp8', 'av1'],
+  mp4: ['avc', 'hevc', 'av1', 'vp9']
+};
+
+// 每个容器对应的音频编码：WebM 用 Opus，MP4 用 AAC 以兼容各发布平台
+export const CONTAINER_AUDIO_CODEC: Record<ExportContainer, 'opus' | 'aac'> = {
+  webm: 'opus',
+  mp4: 'aac'
+};
+
+export const AUDIO_BITRATE = 128_000;
+
+export const CODEC_LABELS: Record<ExportVideoCodec, string> = {
+  vp8: 'VP8',
+  vp9: 'VP9',
+  av1: 'AV1',
+  avc: 'H.264',
+  hevc: 'H.265'
+};
+
+export const QUALITY_LABELS: Record<ExportQuality, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+  custom: '自定义码率'
+};
+
+export const SCALE_OPTIONS = [1, 0.75, 0.5, 0.25];
+export const FRAME_RATE_OPTIONS = [24, 25, 30, 60];
+
+// 各画质档位的每像素每帧比特数（以 H.264 为基准）
+const QUALITY_BPP: Record<Exclude<ExportQuality, 'custom'>, number> = {
+  low: 0.05,
+  medium: 0.1,
+  high: 0.18
+};
+
+// 新一代编码在相同画质下所需的码率更低
+const CODEC_EFFICIENCY: Record<ExportVideoCodec, number> = {
+  vp8: 1.1,
+  avc: 1,
+  vp9: 0.7,
+  hevc: 0.65,
+  av1: 0.55
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  container: 'webm',
+  aspect: 'source',
+  fit: 'crop',
+  videoCodec: 'vp8',
+  scale: 1,
+  frameRate: 30,
+  quality: 'custom',
+  videoBitrate: 5_000_000
+};
+
+// 编码器要求宽高为偶数
+export const scaledSize = (width: number, height: number, scale: number) => ({
+  width: Math.max(2, Math.round(width * scale / 2) * 2),
+  height: Math.max(2, Math.round(height * scale / 2) * 2)
+});
+
+// 按画幅预设换算后再缩放的输出尺寸，width/height 为源视频尺寸
+export const outputSize = (settings: ExportSettings, width: number, height: number) => {
+  const frame = aspectFrameSize(width, height, settings.aspect);
+  return scaledSize(frame.width, frame.height, settings.scale);
+};
+
+export const resolveVideoBitrate = (settings: ExportSettings, width: number, height: number) => {
+  if (settings.quality === 'custom') return settings.videoBitrate;
+  const { width: w, height: h } = outputSize(settings, width, height);
+  const bpp = QUALITY_BPP[settings.quality] * CODEC_EFFICIENCY[settings.videoCodec];
+  return Math.round(w * h * settings.frameRate * bpp);
+};
+
+export const estimateFileSize = (settings: ExportSettings, width: number, height: number, duration: number) =>
+  (resolveVideoBitrate(settings, width, height) + AUDIO_BITRATE) * duration / 8;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+export const containerMimeType = (container: ExportContainer) =>
+  container === 'mp4' ? 'video/mp4' : 'video/webm';
+
+export const extensionForMimeType = (mimeType: string) =>
+  mimeType.includes('mp4') ? 'mp4' : 'webm';
+
+const SETTINGS_KEY = 'novaclip.exportSettings';
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    return { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { EditHistory, EditSnapshot, SubtitleSegment } from '../types';
+import { EMPTY_HISTORY, packHistory, recordEdit, unpackHistory } from './history';
+
+const seg = (id: string, text = id): SubtitleSegment => ({
+  id,
+  startTime: 0,
+  endTime: 1,
+  text,
+  isRedundant: false,
+  confidence: 1
+});
+
+const segments = Array.from({ length: 50 }, (_, i) => seg(String(i)));
+
+// 每次编辑只改动一个片段，其余片段沿用原对象
+const editHistory = (edits: number): EditHistory => {
+  let history = EMPTY_HISTORY;
+  let snapshot: EditSnapshot = { segments, selectedSegments: [] };
+  for (let i = 0; i < edits; i++) {
+    const after = {
+      segments: snapshot.segments.map((s, j) => (j === i ? { ...s, text: `改动 ${i}` } : s)),
+      selectedSegments: [...snapshot.selectedSegments, snapshot.segments[i]]
+    };
+    history = recordEdit(history, { label: `编辑 ${i}`, timestamp: i * 10000, before: snapshot, after });
+    snapshot = after;
+  }
+  return history;
+};
+
+describe('packHistory', () => {
+  it('stores each distinct segment once across all snapshots', () => {
+    const packed = packHistory(editHistory(10));
+    expect(packed.past).toHaveLength(10);
+    expect(packed.segments).toHaveLength(segments.length + 10);
+  });
+
+  it('dedupes equal segments that are different objects, as after a reload', () => {
+    const history = editHistory(3);
+    const reloaded: EditHistory = JSON.parse(JSON.stringify(history));
+    expect(packHistory(reloaded).segments).toHaveLength(packHistory(history).segments.length);
+  });
+
+  it('round-trips through the project file format', () => {
+    const history = editHistory(5);
+    const packed: ReturnType<typeof packHistory> = JSON.parse(JSON.stringify(packHistory(history)));
+    expect(unpackHistory(packed)).toEqual(history);
+  });
+
+  it('keeps only the most recent entries', () => {
+    const packed = packHistory(editHistory(10), 3);
+    expect(packed.past.map(e => e.label)).toEqual(['编辑 7', '编辑 8', '编辑 9']);
+  });
+});
+
+describe('unpackHistory', () => {
+  it('accepts history saved before the segment pool existed', () => {
+    const legacy: EditHistory = JSON.parse(JSON.stringify(editHistory(3)));
+    expect(unpackHistory(legacy)).toEqual(legacy);
+  });
+});
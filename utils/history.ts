@@ -0,0 +1,118 @@
+import {
+  EditHistory,
+  EditSnapshot,
+  HistoryEntry,
+  PackedHistory,
+  PackedHistoryEntry,
+  PackedSnapshot,
+  SubtitleSegment
+} from "../types";
+
+// 内存中保留的最多撤销步数
+export const HISTORY_LIMIT = 100;
+// 随项目保存的撤销步数，避免项目文件过大
+export const PERSISTED_HISTORY_LIMIT = 30;
+// 同一键的编辑在此间隔（毫秒）内合并
+export const COALESCE_WINDOW = 1000;
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+export const canUndo = (history: EditHistory) => history.past.length > 0;
+export const canRedo = (history: EditHistory) => history.future.length > 0;
+
+/**
+ * 记录一次编辑。新的编辑会清空重做栈；与上一条记录键相同且足够接近时合并，
+ * 保留最初的 before 和最新的 after。
+ */
+export const recordEdit = (history: EditHistory, entry: HistoryEntry, limit = HISTORY_LIMIT): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (
+    last &&
+    entry.coalesceKey &&
+    last.coalesceKey === entry.coalesceKey &&
+    entry.timestamp - last.timestamp <= COALESCE_WINDOW
+  ) {
+    const merged = { ...last, after: entry.after, timestamp: entry.timestamp };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...history.past, entry].slice(-limit), future: [] };
+};
+
+export const undoEdit = (history: EditHistory): { history: EditHistory; snapshot: EditSnapshot } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    snapshot: entry.before
+  };
+};
+
+export const redoEdit = (history: EditHistory): { history: EditHistory; snapshot: EditSnapshot } | null => {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future },
+    snapshot: entry.after
+  };
+};
+
+/**
+ * 转换为项目文件中的历史格式。只保留最近的记录（重做栈同样截断），
+ * 所有快照共用一个去重后的片段池，避免每条记录都保存两份完整的字幕列表。
+ */
+export const packHistory = (history: EditHistory, limit = PERSISTED_HISTORY_LIMIT): PackedHistory => {
+  const segments: SubtitleSegment[] = [];
+  const byRef = new Map<SubtitleSegment, number>();
+  const byContent = new Map<string, number>();
+
+  // 编辑时未改动的片段沿用原对象，按引用命中即可；引用不同时再按内容去重
+  const indexOf = (seg: SubtitleSegment) => {
+    let index = byRef.get(seg);
+    if (index !== undefined) return index;
+    const key = JSON.stringify(seg);
+    index = byContent.get(key);
+    if (index === undefined) {
+      index = segments.push(seg) - 1;
+      byContent.set(key, index);
+    }
+    byRef.set(seg, index);
+    return index;
+  };
+  const packSnapshot = (snapshot: EditSnapshot): PackedSnapshot => ({
+    segments: snapshot.segments.map(indexOf),
+    selectedSegments: snapshot.selectedSegments.map(indexOf)
+  });
+  const packEntry = (entry: HistoryEntry): PackedHistoryEntry => ({
+    ...entry,
+    before: packSnapshot(entry.before),
+    after: packSnapshot(entry.after)
+  });
+
+  const past = history.past.slice(-limit).map(packEntry);
+  const future = history.future.slice(0, limit).map(packEntry);
+  return { segments, past, future };
+};
+
+/**
+ * 还原项目中保存的历史。版本 6 之前的记录直接保存完整快照（没有片段池），
+ * 正常情况下已由迁移转换；万一仍是旧格式，原样截断后使用，不因下标失效而报错。
+ */
+export const unpackHistory = (packed: PackedHistory | EditHistory): EditHistory => {
+  if (!('segments' in packed) || !Array.isArray(packed.segments)) {
+    const legacy = packed as EditHistory;
+    return {
+      past: (legacy.past ?? []).slice(-PERSISTED_HISTORY_LIMIT),
+      future: (legacy.future ?? []).slice(0, PERSISTED_HISTORY_LIMIT)
+    };
+  }
+  const unpackSnapshot = (snapshot: PackedSnapshot): EditSnapshot => ({
+    segments: snapshot.segments.map(i => packed.segments[i]),
+    selectedSegments: snapshot.selectedSegments.map(i => packed.segments[i])
+  });
+  const unpackEntry = (entry: PackedHistoryEntry): HistoryEntry => ({
+    ...entry,
+    before: unpackSnapshot(entry.before),
+    after: unpackSnapshot(entry.after)
+  });
+  return { past: packed.past.map(unpackEntry), future: packed.future.map(unpackEntry) };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { breakLines, pageIndexAt, paginateLines, tokenize } from './lineBreak';
+
+// 每个字符宽度为 1，maxWidth 即每行字符数
+const measure = (text: string) => Array.from(text).length;
+
+describe('tokenize', () => {
+  it('keeps latin words together and splits CJK per character', () => {
+    expect(tokenize('我爱 React 框架')).toEqual(['我', '爱', ' ', 'React', ' ', '框', '架']);
+  });
+});
+
+describe('breakLines', () => {
+  it('never splits latin words that fit on a line', () => {
+    expect(breakLines('hello world foo', 11, measure, { balance: false })).toEqual(['hello world', 'foo']);
+  });
+
+  it('breaks CJK text between characters', () => {
+    expect(breakLines('一二三四五六', 4, measure, { balance: false })).toEqual(['一二三四', '五六']);
+  });
+
+  it('balances line lengths without adding lines', () => {
+    expect(breakLines('一二三四五六', 4, measure)).toEqual(['一二三', '四五六']);
+  });
+
+  it('hangs closing punctuation at the line end instead of starting a line with it', () => {
+    expect(breakLines('一二三四。五', 4, measure, { balance: false })).toEqual(['一二三四。', '五']);
+  });
+
+  it('carries opening punctuation to the next line', () => {
+    expect(breakLines('一二三「四五', 4, measure, { balance: false })).toEqual(['一二三', '「四五']);
+  });
+
+  it('wraps mixed Chinese and English at word boundaries', () => {
+    expect(breakLines('我爱 React 框架', 8, measure, { balance: false })).toEqual(['我爱 React', '框架']);
+  });
+
+  it('hard-breaks tokens wider than a whole line', () => {
+    expect(breakLines('abcdefghij', 4, measure, { balance: false })).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('keeps manual line breaks and drops empty paragraphs', () => {
+    expect(breakLines('ab\r\n\ncd', 10, measure)).toEqual(['ab', 'cd']);
+  });
+
+  it('returns no lines for blank text', () => {
+    expect(breakLines('   ', 10, measure)).toEqual([]);
+  });
+});
+
+describe('paginateLines', () => {
+  it('splits lines into pages of at most maxLines', () => {
+    expect(paginateLines(['a', 'b', 'c'], 2)).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('always returns at least one page', () => {
+    expect(paginateLines([], 2)).toEqual([[]]);
+  });
+});
+
+describe('pageIndexAt', () => {
+  it('allots display time by the number of characters on each page', () => {
+    const pages = [['aaa'], ['a']];
+    expect(pageIndexAt(pages, 0.7)).toBe(0);
+    expect(pageIndexAt(pages, 0.8)).toBe(1);
+    expect(pageIndexAt(pages, 1)).toBe(1);
+  });
+});
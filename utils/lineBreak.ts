@@ -0,0 +1,148 @@
+/**
+ * 中英混排字幕的断行：拉丁单词保持完整，中日韩文字按字断开并遵守避头尾规则，
+ * 保留手动换行，并在行数不变的前提下尽量让各行等长。
+ * 宽度测量通过参数注入，便于脱离 Canvas 测试。
+ */
+
+export type MeasureText = (text: string) => number;
+
+// 不能出现在行首的字符（收尾标点）
+const NO_LINE_START = new Set(
+  '，。、！？；：）」』】》〉〕］｝”’…—～·ー々ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮ,.!?;:)]}%'.split('')
+);
+// 不能出现在行尾的字符（开头标点）
+const NO_LINE_END = new Set('（「『【《〈〔［｛“‘([{'.split(''));
+
+const TOKEN_PATTERN = /[ \t]+|[A-Za-z0-9À-ɏ'’\-]+|./gu;
+
+const isSpace = (token: string) => /^[ \t]+$/.test(token);
+
+export const tokenize = (text: string): string[] => text.match(TOKEN_PATTERN) ?? [];
+
+// 单个 token 比整行还宽时（超长单词或网址），只能按字符硬断
+const hardBreak = (token: string, maxWidth: number, measure: MeasureText): string[] => {
+  const parts: string[] = [];
+  let part = '';
+  for (const ch of Array.from(token)) {
+    if (part && measure(part + ch) > maxWidth) {
+      parts.push(part);
+      part = ch;
+    } else {
+      part += ch;
+    }
+  }
+  if (part) parts.push(part);
+  return parts;
+};
+
+const breakParagraph = (text: string, maxWidth: number, measure: MeasureText): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  const place = (token: string) => {
+    if (measure(token) <= maxWidth || token.length === 1) {
+      line = token;
+      return;
+    }
+    const parts = hardBreak(token, maxWidth, measure);
+    lines.push(...parts.slice(0, -1));
+    line = parts[parts.length - 1];
+  };
+
+  for (const token of tokenize(text)) {
+    if (isSpace(token)) {
+      if (line) line += token;
+      continue;
+    }
+    if (!line) {
+      place(token);
+      continue;
+    }
+
+    const candidate = line + token;
+    // 收尾标点即使略超宽也挂在行尾，避免落到下一行行首
+    if (measure(candidate.trimEnd()) <= maxWidth || NO_LINE_START.has(token[0])) {
+      line = candidate;
+      continue;
+    }
+
+    // 行尾的开头标点随下一个 token 一起换行
+    let carry = '';
+    let head = line.trimEnd();
+    while (head.length > 1 && NO_LINE_END.has(head[head.length - 1])) {
+      carry = head[head.length - 1] + carry;
+      head = head.slice(0, -1);
+    }
+    lines.push(head.trimEnd());
+    line = '';
+    place(carry + token);
+  }
+
+  if (line.trim() || lines.length === 0) lines.push(line.trimEnd());
+  return lines;
+};
+
+/**
+ * 在行数不变的前提下二分查找最窄的宽度，使各行长度尽量均衡。
+ */
+const balanceParagraph = (text: string, maxWidth: number, measure: MeasureText, lines: string[]) => {
+  if (lines.length < 2) return lines;
+  let low = maxWidth / lines.length;
+  let high = maxWidth;
+  let best = lines;
+  for (let i = 0; i < 12 && high - low > 1; i++) {
+    const mid = (low + high) / 2;
+    const attempt = breakParagraph(text, mid, measure);
+    const fits = attempt.length <= lines.length && attempt.every(l => measure(l) <= maxWidth);
+    if (fits) {
+      best = attempt;
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return best;
+};
+
+export interface BreakOptions {
+  balance?: boolean;
+}
+
+export const breakLines = (
+  text: string,
+  maxWidth: number,
+  measure: MeasureText,
+  { balance = true }: BreakOptions = {}
+): string[] =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .flatMap(paragraph => {
+      const trimmed = paragraph.trim();
+      if (!trimmed) return [];
+      const lines = breakParagraph(trimmed, maxWidth, measure);
+      return balance ? balanceParagraph(trimmed, maxWidth, measure, lines) : lines;
+    });
+
+/**
+ * 行数超过上限时把字幕拆成多页，按页内字数分配显示时间。
+ */
+export const paginateLines = (lines: string[], maxLines: number): string[][] => {
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += maxLines) {
+    pages.push(lines.slice(i, i + maxLines));
+  }
+  return pages.length > 0 ? pages : [[]];
+};
+
+export const pageIndexAt = (pages: string[][], progress: number): number => {
+  if (pages.length <= 1) return 0;
+  const weights = pages.map(p => Math.max(1, p.join('').length));
+  const total = weights.reduce((a, b) => a + b, 0);
+  let acc = 0;
+  for (let i = 0; i < pages.length; i++) {
+    acc += weights[i] / total;
+    if (progress < acc) return i;
+  }
+  return pages.length - 1;
+};
@@ -0,0 +1,32 @@
+/**
+ * 读取视频文件时长（秒），只加载元数据，不解码画面。
+ */
+export const probeVideoDuration = (file: Blob): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const probe = document.createElement('video');
+    probe.preload = 'metadata';
+    probe.muted = true;
+    const cleanup = () => {
+      probe.removeAttribute('src');
+      probe.load();
+      URL.revokeObjectURL(url);
+    };
+    probe.onloadedmetadata = () => {
+      const duration = probe.duration;
+      cleanup();
+      Number.isFinite(duration) ? resolve(duration) : reject(new Error("无法读取视频时长"));
+    };
+    probe.onerror = () => {
+      cleanup();
+      reject(new Error("无法读取视频元数据"));
+    };
+    probe.src = url;
+  });
+
+export const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
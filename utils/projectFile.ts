@@ -0,0 +1,111 @@
+import { ProjectData, SubtitleSegment, VideoFingerprint, VideoMetadata } from "../types";
+import { DEFAULT_SUBTITLE_STYLE } from "./subtitleStyle";
+import { EMPTY_HISTORY, packHistory } from "./history";
+import { DEFAULT_CAPTION_SETTINGS } from "./translation";
+import { DEFAULT_COMPOSITION_SETTINGS } from "./composition";
+
+export const PROJECT_SCHEMA_VERSION = 6;
+export const PROJECT_FILE_EXTENSION = '.novaclip.json';
+
+export const createProjectId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const fingerprintVideo = (video: VideoMetadata): VideoFingerprint => ({
+  name: video.name,
+  size: video.size,
+  type: video.file.type,
+  lastModified: video.file.lastModified,
+  duration: video.duration
+});
+
+// 名称与大小一致即视为同一文件；lastModified 在不同系统间复制时可能变化
+export const matchesFingerprint = (file: File, fp: VideoFingerprint) =>
+  file.name === fp.name && file.size === fp.size;
+
+type Migration = (raw: any) => any;
+
+/**
+ * 逐版本升级旧项目文件，键为源版本号。
+ * 版本 0：早期仅保存字幕数组或 { segments } 对象，没有 version 字段。
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (raw) => {
+    const segments: SubtitleSegment[] = Array.isArray(raw) ? raw : raw?.segments ?? [];
+    const now = Date.now();
+    return {
+      version: 1,
+      id: raw?.id ?? createProjectId(),
+      name: raw?.name ?? raw?.video?.name ?? '未命名项目',
+      createdAt: raw?.createdAt ?? now,
+      updatedAt: raw?.updatedAt ?? now,
+      video: raw?.video ?? { name: '', size: 0, type: '', lastModified: 0, duration: 0 },
+      segments,
+      selectedSegments: raw?.selectedSegments ?? []
+    };
+  },
+  // 版本 2：新增字幕样式，旧项目使用原先硬编码的默认样式
+  1: (raw) => ({
+    ...raw,
+    version: 2,
+    style: { ...DEFAULT_SUBTITLE_STYLE, ...raw.style }
+  }),
+  // 版本 3：新增撤销历史，旧项目从空历史开始
+  2: (raw) => ({
+    ...raw,
+    version: 3,
+    history: raw.history ?? EMPTY_HISTORY
+  }),
+  // 版本 4：新增多语言字幕，旧项目只有原文
+  3: (raw) => ({
+    ...raw,
+    version: 4,
+    captions: { ...DEFAULT_CAPTION_SETTINGS, ...raw.captions }
+  }),
+  // 版本 5：新增转场、片头片尾与背景音乐设置，旧项目保持硬切
+  4: (raw) => ({
+    ...raw,
+    version: 5,
+    composition: { ...DEFAULT_COMPOSITION_SETTINGS, ...raw.composition }
+  }),
+  // 版本 6：撤销历史改为共用片段池的紧凑格式
+  5: (raw) => ({
+    ...raw,
+    version: 6,
+    history: packHistory(raw.history ?? EMPTY_HISTORY)
+  })
+};
+
+export const migrateProject = (raw: any): ProjectData => {
+  let project = raw;
+  let version: number = typeof raw?.version === 'number' ? raw.version : 0;
+
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`项目文件版本 ${version} 高于当前支持的版本 ${PROJECT_SCHEMA_VERSION}，请升级应用`);
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`缺少项目版本 ${version} 的迁移规则`);
+    project = migrate(project);
+    version = project.version;
+  }
+
+  if (!Array.isArray(project.segments) || !Array.isArray(project.selectedSegments)) {
+    throw new Error('项目文件缺少字幕数据');
+  }
+  return project as ProjectData;
+};
+
+export const serializeProject = (project: ProjectData): string =>
+  JSON.stringify(project, null, 2);
+
+export const parseProjectFile = async (file: File): Promise<ProjectData> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`无法解析项目文件: ${file.name}`);
+  }
+  return migrateProject(raw);
+};
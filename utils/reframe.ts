@@ -0,0 +1,132 @@
+import { AspectPreset, CropKeyframe, FrameFit } from "../types";
+import { SubtitleContext } from "./subtitleRenderer";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 绘制源画面子区域的回调，兼容 mediabunny 的 VideoSample 与 <video> 元素
+export type DrawSource = (sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number) => void;
+
+export const ASPECT_PRESETS: Record<AspectPreset, { label: string; ratio: number | null }> = {
+  source: { label: '原始比例', ratio: null },
+  '16:9': { label: '16:9 横屏', ratio: 16 / 9 },
+  '9:16': { label: '9:16 竖屏', ratio: 9 / 16 },
+  '1:1': { label: '1:1 方形', ratio: 1 },
+  '4:5': { label: '4:5 竖版', ratio: 4 / 5 }
+};
+
+export const FRAME_FIT_LABELS: Record<FrameFit, string> = {
+  crop: '裁剪',
+  letterbox: '黑边',
+  blur: '模糊背景'
+};
+
+export const CENTER_CROP: CropKeyframe = { time: 0, x: 0.5, y: 0.5 };
+
+// 模糊背景的半径（相对输出短边）
+const BLUR_RATIO = 0.04;
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * 画幅预设下的输出尺寸：短边与源视频短边一致，长边按比例换算，避免竖屏输出分辨率过低。
+ */
+export const aspectFrameSize = (width: number, height: number, aspect: AspectPreset) => {
+  const ratio = ASPECT_PRESETS[aspect].ratio;
+  if (!ratio) return { width, height };
+  const short = Math.min(width, height);
+  return ratio >= 1
+    ? { width: even(short * ratio), height: even(short) }
+    : { width: even(short), height: even(short / ratio) };
+};
+
+export const isReframed = (aspect: AspectPreset, width: number, height: number) => {
+  const ratio = ASPECT_PRESETS[aspect].ratio;
+  return ratio !== null && Math.abs(ratio - width / height) > 0.01;
+};
+
+/**
+ * 源画面中与目标比例一致的最大裁剪区域，中心尽量落在 center 处且不越出画面。
+ */
+export const cropRect = (sourceWidth: number, sourceHeight: number, ratio: number, center: { x: number; y: number }): Rect => {
+  const width = Math.min(sourceWidth, sourceHeight * ratio);
+  const height = width / ratio;
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+  return {
+    x: clamp(center.x * sourceWidth - width / 2, sourceWidth - width),
+    y: clamp(center.y * sourceHeight - height / 2, sourceHeight - height),
+    width,
+    height
+  };
+};
+
+// 完整放入目标区域的居中矩形（黑边填充）
+export const containRect = (sourceWidth: number, sourceHeight: number, width: number, height: number): Rect => {
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const w = sourceWidth * scale;
+  const h = sourceHeight * scale;
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+};
+
+/**
+ * 片段内某一时刻的裁剪中心，在相邻关键帧之间线性插值；没有关键帧时居中。
+ */
+export const cropCenterAt = (keyframes: CropKeyframe[] | undefined, time: number): { x: number; y: number } => {
+  if (!keyframes || keyframes.length === 0) return CENTER_CROP;
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  if (time <= sorted[0].time) return sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (time >= last.time) return last;
+  const next = sorted.findIndex(k => k.time > time);
+  const a = sorted[next - 1];
+  const b = sorted[next];
+  const t = (time - a.time) / (b.time - a.time);
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+};
+
+// 同一时刻（误差 50ms 内）已有关键帧时覆盖
+export const upsertKeyframe = (keyframes: CropKeyframe[] | undefined, keyframe: CropKeyframe): CropKeyframe[] =>
+  [...(keyframes ?? []).filter(k => Math.abs(k.time - keyframe.time) > 0.05), keyframe].sort((a, b) => a.time - b.time);
+
+/**
+ * 将源画面按画幅设置绘制到整个输出画布。
+ */
+export const drawReframedFrame = (
+  ctx: SubtitleContext,
+  draw: DrawSource,
+  source: { width: number; height: number },
+  output: { width: number; height: number },
+  aspect: AspectPreset,
+  fit: FrameFit,
+  center: { x: number; y: number }
+) => {
+  const ratio = ASPECT_PRESETS[aspect].ratio;
+  if (!ratio || !isReframed(aspect, source.width, source.height)) {
+    draw(0, 0, source.width, source.height, 0, 0, output.width, output.height);
+    return;
+  }
+
+  if (fit === 'crop') {
+    const crop = cropRect(source.width, source.height, ratio, center);
+    draw(crop.x, crop.y, crop.width, crop.height, 0, 0, output.width, output.height);
+    return;
+  }
+
+  if (fit === 'blur') {
+    // 铺满画面的放大裁剪作为背景
+    const cover = cropRect(source.width, source.height, ratio, CENTER_CROP);
+    ctx.save();
+    ctx.filter = `blur(${Math.round(Math.min(output.width, output.height) * BLUR_RATIO)}px) brightness(0.7)`;
+    draw(cover.x, cover.y, cover.width, cover.height, 0, 0, output.width, output.height);
+    ctx.restore();
+  } else {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, output.width, output.height);
+  }
+  const fitted = containRect(source.width, source.height, output.width, output.height);
+  draw(0, 0, source.width, source.height, fitted.x, fitted.y, fitted.width, fitted.height);
+};
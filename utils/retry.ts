@@ -0,0 +1,44 @@
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+const TRANSIENT_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_PATTERN = /UNAVAILABLE|RESOURCE_EXHAUSTED|DEADLINE_EXCEEDED|INTERNAL|overloaded|timeout|Failed to fetch|NetworkError/i;
+
+/**
+ * 判断错误是否值得重试：限流、服务端 5xx、网络中断等。
+ * @google/genai 的 ApiError 带有 status 字段。
+ */
+export const isTransientError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUS.has(status);
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_PATTERN.test(message);
+};
+
+export const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 指数退避重试，延迟带 ±20% 抖动以避免并发请求同时重试。
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs = 30000, shouldRetry = () => true, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxAttempts || !shouldRetry(error)) throw error;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      await wait(delay * (0.8 + Math.random() * 0.4));
+      onRetry?.(attempt + 1, error);
+    }
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment } from '../types';
+import { DEFAULT_COMPOSITION_SETTINGS, rebaseToComposition } from './composition';
+import { RoughCutOptions, buildRoughCut } from './roughCut';
+
+const seg = (id: string, startTime: number, endTime: number, isRedundant = false): SubtitleSegment => ({
+  id,
+  startTime,
+  endTime,
+  text: `第${id}句`,
+  isRedundant,
+  confidence: 1
+});
+
+const options: RoughCutOptions = { minConfidence: 0.6, padding: 0.2, gapTolerance: 0.5 };
+
+describe('buildRoughCut', () => {
+  const segments = [seg('1', 1, 3), seg('2', 3.4, 5), seg('3', 5, 6, true), seg('4', 10, 12)];
+
+  it('joins close sentences into one continuous range without merging their text', () => {
+    const { clips, rangeCount } = buildRoughCut(segments, 20, options);
+    expect(rangeCount).toBe(2);
+    expect(clips.map(c => [c.text, c.startTime, c.endTime])).toEqual([
+      ['第1句', 0.8, 3.2],
+      ['第2句', 3.2, 5.2],
+      ['第4句', 9.8, 12.2]
+    ]);
+  });
+
+  it('keeps a hard cut inside a range even when the default transition is a crossfade', () => {
+    const settings = { ...DEFAULT_COMPOSITION_SETTINGS, transition: { kind: 'crossfade' as const, duration: 0.5 } };
+    const cues = rebaseToComposition(buildRoughCut(segments, 20, options).clips, settings, 10);
+    expect(cues.map(c => [c.text, c.startTime, c.endTime])).toEqual([
+      ['第1句', 0, 2.4],
+      ['第2句', 2.4, 4.4],
+      ['第4句', 3.9, 6.3]
+    ]);
+  });
+
+  it('clamps the padding to the video bounds', () => {
+    const { clips } = buildRoughCut([seg('1', 0.1, 1), seg('2', 9.5, 10)], 10, options);
+    expect(clips.map(c => [c.startTime, c.endTime])).toEqual([[0, 1.2], [9.3, 10]]);
+  });
+});
@@ -0,0 +1,119 @@
+import { ClipTransition, SubtitleSegment } from "../types";
+import { sortByStart } from "./segmentEditing";
+
+export interface RoughCutOptions {
+  // 低于此置信度的片段不进入粗剪
+  minConfidence: number;
+  // 每个保留片段前后各延长的时长（秒），避免切到字头字尾
+  padding: number;
+  // 相邻保留片段（加边距后）间隔不超过此值时连成一段连续画面（秒）
+  gapTolerance: number;
+}
+
+export type RoughCutReason = 'redundant' | 'lowConfidence' | 'manual';
+
+export interface RoughCutRemoval {
+  segment: SubtitleSegment;
+  reason: RoughCutReason;
+}
+
+export interface RoughCutResult {
+  clips: SubtitleSegment[];
+  // 连续画面的段数，首尾相接的片段算作一段
+  rangeCount: number;
+  keptDuration: number;
+  removedDuration: number;
+}
+
+export const DEFAULT_ROUGH_CUT_OPTIONS: RoughCutOptions = {
+  minConfidence: 0.6,
+  padding: 0.15,
+  gapTolerance: 0.5
+};
+
+export const ROUGH_CUT_REASON_LABELS: Record<RoughCutReason, string> = {
+  redundant: '冗余',
+  lowConfidence: '低置信度',
+  manual: '手动移除'
+};
+
+const OPTIONS_KEY = 'novaclip.roughCutOptions';
+
+export const loadRoughCutOptions = (): RoughCutOptions => {
+  try {
+    return { ...DEFAULT_ROUGH_CUT_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_ROUGH_CUT_OPTIONS;
+  }
+};
+
+export const saveRoughCutOptions = (options: RoughCutOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+// 连续画面内部的衔接点强制硬切，不受全局转场影响
+const SEAMLESS_CUT: ClipTransition = { kind: 'cut', duration: 0 };
+
+const keepSegment = (seg: SubtitleSegment, options: RoughCutOptions) =>
+  !seg.isRedundant && seg.confidence >= options.minConfidence;
+
+/**
+ * 按冗余标记与置信度筛选片段，加边距后按源视频顺序生成剪辑队列。
+ * 间隔很小的相邻片段在两句之间的中点首尾相接，画面连续播放，
+ * 但每句仍是独立的片段，保留自己的文字和时间，字幕逐句显示。
+ * duration 为 0 时（元数据尚未加载）不限制末尾边距。
+ */
+export const buildRoughCut = (
+  segments: SubtitleSegment[],
+  duration: number,
+  options: RoughCutOptions
+): RoughCutResult => {
+  const limit = duration > 0 ? duration : Infinity;
+  const clips: SubtitleSegment[] = [];
+  let rangeCount = 0;
+
+  for (const seg of sortByStart(segments.filter(s => keepSegment(s, options)))) {
+    const padded = {
+      ...seg,
+      startTime: Math.max(0, seg.startTime - options.padding),
+      endTime: Math.min(limit, seg.endTime + options.padding)
+    };
+    const last = clips[clips.length - 1];
+    if (last && padded.startTime - last.endTime <= options.gapTolerance) {
+      const seam = Math.min(Math.max((last.endTime + padded.startTime) / 2, last.startTime), padded.endTime);
+      clips[clips.length - 1] = { ...last, endTime: seam };
+      clips.push({ ...padded, startTime: seam, transition: SEAMLESS_CUT });
+    } else {
+      clips.push(padded);
+      rangeCount++;
+    }
+  }
+
+  const keptDuration = clips.reduce((sum, c) => sum + c.endTime - c.startTime, 0);
+  const total = duration > 0 ? duration : Math.max(keptDuration, ...segments.map(s => s.endTime));
+  return { clips, rangeCount, keptDuration, removedDuration: Math.max(0, total - keptDuration) };
+};
+
+/**
+ * 列出中点未落在任何队列片段内的字幕，即当前成片中被剪掉的内容。
+ */
+export const findRemovedSegments = (
+  segments: SubtitleSegment[],
+  clips: SubtitleSegment[],
+  options: RoughCutOptions
+): RoughCutRemoval[] =>
+  sortByStart(segments)
+    .filter(seg => {
+      const mid = (seg.startTime + seg.endTime) / 2;
+      return !clips.some(c => mid >= c.startTime && mid < c.endTime);
+    })
+    .map(segment => ({
+      segment,
+      reason: segment.isRedundant ? 'redundant' : segment.confidence < options.minConfidence ? 'lowConfidence' : 'manual'
+    }));
+
+// 恢复的片段按源视频时间插入队列，保持粗剪的时间顺序
+export const restoreIntoQueue = (clips: SubtitleSegment[], seg: SubtitleSegment): SubtitleSegment[] => {
+  const index = clips.findIndex(c => c.startTime > seg.startTime);
+  return index < 0 ? [...clips, seg] : [...clips.slice(0, index), seg, ...clips.slice(index)];
+};
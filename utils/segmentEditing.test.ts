@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment } from '../types';
+import { mergeSegments, replaceSegments } from './segmentEditing';
+
+const seg = (id: string, startTime: number, endTime: number): SubtitleSegment => ({
+  id,
+  startTime,
+  endTime,
+  text: id,
+  isRedundant: false,
+  confidence: 1
+});
+
+const a = seg('a', 0, 1);
+const b = seg('b', 1, 2);
+const c = seg('c', 5, 6);
+
+const mergeReplacements = (merged: SubtitleSegment) => new Map([[a.id, [merged]], [b.id, [merged]]]);
+
+describe('replaceSegments', () => {
+  it('keeps one copy of a merged clip when both halves are adjacent', () => {
+    const merged = mergeSegments(a, b);
+    expect(replaceSegments([a, b, c], mergeReplacements(merged))).toEqual([merged, c]);
+  });
+
+  it('keeps one copy of a merged clip when the halves are apart in the queue', () => {
+    const merged = mergeSegments(a, b);
+    expect(replaceSegments([a, c, b], mergeReplacements(merged))).toEqual([merged, c]);
+  });
+
+  it('keeps every occurrence of a clip queued more than once', () => {
+    const edited = { ...a, text: 'edited' };
+    expect(replaceSegments([a, c, a], new Map([[a.id, [edited]]]))).toEqual([edited, c, edited]);
+  });
+});
@@ -0,0 +1,133 @@
+import { SubtitleSegment } from "../types";
+
+export interface SegmentIssue {
+  id: string;
+  message: string;
+}
+
+// 两个片段之间允许的最小时长（秒）
+const MIN_DURATION = 0.05;
+
+const isLatinBoundary = (a: string, b: string) =>
+  /[A-Za-z0-9]$/.test(a) && /^[A-Za-z0-9]/.test(b);
+
+export const sortByStart = (segs: SubtitleSegment[]) =>
+  [...segs].sort((a, b) => a.startTime - b.startTime);
+
+export const uniqueSegmentId = (base: string, existing: SubtitleSegment[]) => {
+  const ids = new Set(existing.map(s => s.id));
+  let n = 1;
+  while (ids.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
+
+/**
+ * 校验单个片段的时间与文本，并检查它与其他片段是否重叠。
+ * duration 为 0 时（元数据尚未加载）跳过时长上限检查。
+ */
+export const validateSegment = (
+  seg: SubtitleSegment,
+  others: SubtitleSegment[],
+  duration: number
+): SegmentIssue[] => {
+  const issues: SegmentIssue[] = [];
+  const push = (message: string) => issues.push({ id: seg.id, message });
+
+  if (!seg.text.trim()) push('字幕文本不能为空');
+  if (!Number.isFinite(seg.startTime) || !Number.isFinite(seg.endTime)) {
+    push('时间必须是数字');
+    return issues;
+  }
+  if (seg.startTime < 0) push('开始时间不能小于 0');
+  if (seg.endTime - seg.startTime < MIN_DURATION) push('结束时间必须晚于开始时间');
+  if (duration > 0 && seg.endTime > duration + 0.001) push(`结束时间超出视频时长 ${duration.toFixed(2)}s`);
+
+  for (const other of others) {
+    if (other.id === seg.id) continue;
+    if (seg.startTime < other.endTime && other.startTime < seg.endTime) {
+      push(`与片段 ${other.startTime.toFixed(2)}s - ${other.endTime.toFixed(2)}s 时间重叠`);
+    }
+  }
+  return issues;
+};
+
+export const validateSegments = (segs: SubtitleSegment[], duration: number): SegmentIssue[] =>
+  segs.flatMap(seg => validateSegment(seg, segs, duration));
+
+/**
+ * 在文本光标处拆分片段，按光标前后的字符数比例插值出拆分时间点。
+ */
+export const splitSegment = (
+  seg: SubtitleSegment,
+  cursor: number,
+  existing: SubtitleSegment[]
+): [SubtitleSegment, SubtitleSegment] | null => {
+  const head = seg.text.slice(0, cursor).trim();
+  const tail = seg.text.slice(cursor).trim();
+  if (!head || !tail) return null;
+
+  const ratio = head.length / (head.length + tail.length);
+  const splitTime = seg.startTime + (seg.endTime - seg.startTime) * ratio;
+  const firstId = uniqueSegmentId(seg.id, existing);
+  const secondId = uniqueSegmentId(seg.id, [...existing, { ...seg, id: firstId }]);
+
+  // 译文无法按原文光标对应拆分，拆分后需重新翻译
+  return [
+    { ...seg, id: firstId, text: head, endTime: splitTime, translations: undefined },
+    { ...seg, id: secondId, text: tail, startTime: splitTime, translations: undefined }
+  ];
+};
+
+const joinText = (a: string, b: string) => {
+  const left = a.trim();
+  const right = b.trim();
+  return isLatinBoundary(left, right) ? `${left} ${right}` : `${left}${right}`;
+};
+
+const mergeTranslations = (first: SubtitleSegment, second: SubtitleSegment) => {
+  if (!first.translations && !second.translations) return undefined;
+  const languages = new Set([...Object.keys(first.translations ?? {}), ...Object.keys(second.translations ?? {})]);
+  return Object.fromEntries(
+    [...languages].map(lang => [lang, joinText(first.translations?.[lang] ?? '', second.translations?.[lang] ?? '')])
+  );
+};
+
+export const mergeSegments = (a: SubtitleSegment, b: SubtitleSegment): SubtitleSegment => {
+  const [first, second] = a.startTime <= b.startTime ? [a, b] : [b, a];
+  return {
+    ...first,
+    text: joinText(first.text, second.text),
+    translations: mergeTranslations(first, second),
+    endTime: Math.max(first.endTime, second.endTime),
+    isRedundant: first.isRedundant && second.isRedundant,
+    confidence: Math.min(first.confidence, second.confidence)
+  };
+};
+
+/**
+ * 以 id 为键替换片段：replacements 中每个 id 对应替换后的片段（可为多个或为空）。
+ * 同时用于字幕列表和剪辑队列，保证编辑结果同步进入合成。
+ */
+export const replaceSegments = (
+  segs: SubtitleSegment[],
+  replacements: Map<string, SubtitleSegment[]>
+): SubtitleSegment[] => {
+  const result: SubtitleSegment[] = [];
+  // 替换片段 id → 产出它的原片段 id。合并后的片段由两个原片段共同产出，
+  // 无论二者在队列中是否相邻都只保留第一处；同一片段被重复加入队列时各自保留
+  const emittedBy = new Map<string, string>();
+  for (const seg of segs) {
+    const next = replacements.get(seg.id);
+    if (!next) {
+      result.push(seg);
+      continue;
+    }
+    for (const r of next) {
+      const source = emittedBy.get(r.id);
+      if (source !== undefined && source !== seg.id) continue;
+      emittedBy.set(r.id, seg.id);
+      result.push(r);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,129 @@
+import { SubtitleSegment } from "../types";
+
+export type RedundancyFilter = 'useful' | 'redundant' | 'all';
+export type SegmentSort = 'time' | 'confidence' | 'duration' | 'matches';
+
+export interface SegmentFilter {
+  query: string;
+  minConfidence: number;
+  maxConfidence: number;
+  minDuration: number;
+  // 0 表示不限
+  maxDuration: number;
+  timeFrom: number;
+  // 0 表示到视频结尾
+  timeTo: number;
+  redundancy: RedundancyFilter;
+}
+
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+export const DEFAULT_SEGMENT_FILTER: SegmentFilter = {
+  query: '',
+  minConfidence: 0,
+  maxConfidence: 1,
+  minDuration: 0,
+  maxDuration: 0,
+  timeFrom: 0,
+  timeTo: 0,
+  redundancy: 'useful'
+};
+
+export const REDUNDANCY_FILTER_LABELS: Record<RedundancyFilter, string> = {
+  useful: '仅有效片段',
+  redundant: '仅冗余片段',
+  all: '全部片段'
+};
+
+export const SEGMENT_SORT_LABELS: Record<SegmentSort, string> = {
+  time: '按时间',
+  confidence: '按置信度',
+  duration: '按时长',
+  matches: '按匹配数'
+};
+
+// 空白分隔的多个关键词，全部命中才算匹配；不区分大小写
+export const queryTerms = (query: string) =>
+  query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+const countMatches = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  return terms.reduce((sum, term) => {
+    let count = 0;
+    for (let i = lower.indexOf(term); i >= 0; i = lower.indexOf(term, i + term.length)) count++;
+    return sum + count;
+  }, 0);
+};
+
+export const isFilterActive = (filter: SegmentFilter) =>
+  JSON.stringify(filter) !== JSON.stringify(DEFAULT_SEGMENT_FILTER);
+
+export const matchesFilter = (seg: SubtitleSegment, filter: SegmentFilter, terms = queryTerms(filter.query)) => {
+  if (filter.redundancy === 'useful' && seg.isRedundant) return false;
+  if (filter.redundancy === 'redundant' && !seg.isRedundant) return false;
+  if (seg.confidence < filter.minConfidence || seg.confidence > filter.maxConfidence) return false;
+
+  const length = seg.endTime - seg.startTime;
+  if (length < filter.minDuration) return false;
+  if (filter.maxDuration > 0 && length > filter.maxDuration) return false;
+
+  // 时间范围按重叠判断，片段部分落入即显示
+  if (seg.endTime <= filter.timeFrom) return false;
+  if (filter.timeTo > 0 && seg.startTime >= filter.timeTo) return false;
+
+  const lower = seg.text.toLowerCase();
+  return terms.every(term => lower.includes(term));
+};
+
+export const filterSegments = (segments: SubtitleSegment[], filter: SegmentFilter, sort: SegmentSort): SubtitleSegment[] => {
+  const terms = queryTerms(filter.query);
+  const result = segments.filter(seg => matchesFilter(seg, filter, terms));
+  const byTime = (a: SubtitleSegment, b: SubtitleSegment) => a.startTime - b.startTime;
+
+  switch (sort) {
+    case 'confidence':
+      return result.sort((a, b) => b.confidence - a.confidence || byTime(a, b));
+    case 'duration':
+      return result.sort((a, b) => (b.endTime - b.startTime) - (a.endTime - a.startTime) || byTime(a, b));
+    case 'matches':
+      return result.sort((a, b) => countMatches(b.text, terms) - countMatches(a.text, terms) || byTime(a, b));
+    default:
+      return result.sort(byTime);
+  }
+};
+
+/**
+ * 将文本按关键词切分为高亮与普通片段，重叠的命中合并为一段。
+ */
+export const highlightText = (text: string, query: string): TextPart[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const lower = text.toLowerCase();
+  const marks = new Uint8Array(text.length);
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i >= 0; i = lower.indexOf(term, i + 1)) {
+      marks.fill(1, i, i + term.length);
+    }
+  }
+
+  const parts: TextPart[] = [];
+  for (let i = 0; i < text.length; ) {
+    let j = i;
+    while (j < text.length && marks[j] === marks[i]) j++;
+    parts.push({ text: text.slice(i, j), match: marks[i] === 1 });
+    i = j;
+  }
+  return parts;
+};
+
+// Shift 点击时选中锚点与目标之间（含两端）的所有结果
+export const rangeSelection = (list: SubtitleSegment[], anchorId: string, targetId: string): string[] => {
+  const a = list.findIndex(s => s.id === anchorId);
+  const b = list.findIndex(s => s.id === targetId);
+  if (a < 0 || b < 0) return [targetId];
+  return list.slice(Math.min(a, b), Math.max(a, b) + 1).map(s => s.id);
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { recoverSegmentsJson, repairSegments } from './segmentValidation';
+
+const kinds = (issues: { kind: string }[]) => issues.map(issue => issue.kind);
+
+describe('recoverSegmentsJson', () => {
+  it('parses a plain JSON array', () => {
+    expect(recoverSegmentsJson('[{"id":"1"}]')).toEqual({ items: [{ id: '1' }], issues: [] });
+  });
+
+  it('strips a Markdown code fence', () => {
+    expect(recoverSegmentsJson('```json\n[{"id":"1"}]\n```').items).toEqual([{ id: '1' }]);
+  });
+
+  it('accepts an object wrapping a segments array', () => {
+    expect(recoverSegmentsJson('{"segments":[{"id":"1"}]}').items).toEqual([{ id: '1' }]);
+  });
+
+  it('extracts the array from surrounding prose', () => {
+    expect(recoverSegmentsJson('结果如下：[{"id":"1"}] 以上。').items).toEqual([{ id: '1' }]);
+  });
+
+  it('recovers complete objects from a truncated response', () => {
+    const result = recoverSegmentsJson('[{"id":"1","text":"a}b"},{"id":"2","text":"cut');
+    expect(result.items).toEqual([{ id: '1', text: 'a}b' }]);
+    expect(kinds(result.issues)).toEqual(['parse']);
+  });
+
+  it('reports an empty response', () => {
+    expect(recoverSegmentsJson(undefined)).toEqual({ items: [], issues: [expect.objectContaining({ kind: 'parse' })] });
+  });
+});
+
+describe('repairSegments', () => {
+  it('fills in defaults and drops segments without text or valid times', () => {
+    const { segments, issues } = repairSegments([
+      { startTime: '1', endTime: 2, text: ' 你好 ' },
+      { id: 'x', startTime: 3, endTime: 4, text: '' },
+      { id: 'y', startTime: 'abc', endTime: 4, text: '坏时间' },
+      null
+    ], 10);
+    expect(segments).toEqual([{ id: 'seg-1', startTime: 1, endTime: 2, text: '你好', isRedundant: false, confidence: 1 }]);
+    expect(kinds(issues)).toEqual(['defaulted', 'dropped', 'dropped', 'dropped']);
+  });
+
+  it('swaps reversed times and clamps to the video duration', () => {
+    const { segments, issues } = repairSegments([
+      { id: 'a', startTime: 5, endTime: 3, text: 'a', isRedundant: false, confidence: 0.9 },
+      { id: 'b', startTime: 8, endTime: 12, text: 'b', isRedundant: true, confidence: 2 }
+    ], 10);
+    expect(segments.map(s => [s.startTime, s.endTime, s.confidence])).toEqual([[3, 5, 0.9], [8, 10, 1]]);
+    expect(kinds(issues)).toEqual(['swapped', 'clamped']);
+  });
+
+  it('skips the upper clamp when the duration is unknown', () => {
+    const { segments } = repairSegments([{ id: 'a', startTime: 100, endTime: 200, text: 'a', isRedundant: false, confidence: 1 }], 0);
+    expect(segments[0].endTime).toBe(200);
+  });
+
+  it('sorts segments, splits overlaps at the midpoint and drops contained ones', () => {
+    const { segments, issues } = repairSegments([
+      { id: 'b', startTime: 2, endTime: 6, text: 'b', isRedundant: false, confidence: 1 },
+      { id: 'a', startTime: 0, endTime: 4, text: 'a', isRedundant: false, confidence: 1 },
+      { id: 'c', startTime: 4.5, endTime: 5, text: 'c', isRedundant: false, confidence: 1 }
+    ], 10);
+    expect(segments.map(s => [s.id, s.startTime, s.endTime])).toEqual([['a', 0, 3], ['b', 3, 6]]);
+    expect(kinds(issues)).toEqual(['overlap', 'overlap']);
+  });
+
+  it('renames duplicate ids', () => {
+    const { segments, issues } = repairSegments([
+      { id: 'a', startTime: 0, endTime: 1, text: 'x', isRedundant: false, confidence: 1 },
+      { id: 'a', startTime: 1, endTime: 2, text: 'y', isRedundant: false, confidence: 1 }
+    ], 10);
+    expect(segments.map(s => s.id)).toEqual(['a', 'a-2']);
+    expect(kinds(issues)).toEqual(['duplicateId']);
+  });
+});
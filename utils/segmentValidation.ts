@@ -0,0 +1,203 @@
+import { AnalysisIssue, AnalysisResult, SubtitleSegment } from "../types";
+
+// 修复后片段的最短时长（秒），更短的视为无效
+const MIN_DURATION = 0.05;
+const DEFAULT_CONFIDENCE = 1;
+
+// 模型响应完全无法解析；重新请求通常能得到完整响应，分段分析时据此整段重试
+export class ResponseParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResponseParseError';
+  }
+}
+
+export interface RecoveredJson {
+  items: unknown[];
+  issues: AnalysisIssue[];
+}
+
+// 逐字符扫描，取出数组中所有完整闭合的顶层对象，用于恢复被截断的响应
+const extractCompleteObjects = (text: string): unknown[] => {
+  const items: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' && depth > 0) {
+      depth--;
+      if (depth === 0 && start >= 0) {
+        try {
+          items.push(JSON.parse(text.slice(start, i + 1)));
+        } catch {
+          // 单个对象损坏时跳过，继续扫描后续对象
+        }
+        start = -1;
+      }
+    }
+  }
+  return items;
+};
+
+/**
+ * 解析模型返回的 JSON 数组。依次尝试：直接解析、去掉 Markdown 代码块、截取方括号范围、
+ * 逐个提取完整对象。始终返回能恢复的部分，并记录问题。
+ */
+export const recoverSegmentsJson = (text: string | undefined): RecoveredJson => {
+  const source = (text ?? '').trim();
+  if (!source) {
+    return { items: [], issues: [{ kind: 'parse', message: '模型返回了空响应' }] };
+  }
+
+  const candidates = [
+    source,
+    source.replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '').trim()
+  ];
+  const first = source.indexOf('[');
+  const last = source.lastIndexOf(']');
+  if (first >= 0 && last > first) candidates.push(source.slice(first, last + 1));
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (Array.isArray(parsed)) return { items: parsed, issues: [] };
+      if (Array.isArray(parsed?.segments)) return { items: parsed.segments, issues: [] };
+    } catch {
+      // 继续尝试下一种方式
+    }
+  }
+
+  const items = extractCompleteObjects(source);
+  return {
+    items,
+    issues: [{
+      kind: 'parse',
+      message: items.length > 0
+        ? `响应不是完整的 JSON，已从中恢复 ${items.length} 个片段`
+        : '响应不是合法的 JSON，未能恢复任何片段'
+    }]
+  };
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+/**
+ * 校验并修复片段列表：补全默认值、交换颠倒的时间、裁剪到视频时长、排序、
+ * 消除重叠、去重 id。duration 为 0 表示时长未知，此时跳过上限裁剪。
+ */
+export const repairSegments = (raw: unknown[], duration: number): AnalysisResult => {
+  const issues: AnalysisIssue[] = [];
+  const segments: SubtitleSegment[] = [];
+
+  raw.forEach((item, index) => {
+    const obj = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const id = obj.id !== undefined && obj.id !== null && String(obj.id).trim() ? String(obj.id) : `seg-${index + 1}`;
+    const text = typeof obj.text === 'string' ? obj.text.trim() : '';
+    let startTime = toNumber(obj.startTime);
+    let endTime = toNumber(obj.endTime);
+
+    if (!text) {
+      issues.push({ kind: 'dropped', segmentId: id, message: `第 ${index + 1} 个片段缺少文本，已丢弃` });
+      return;
+    }
+    if (!Number.isFinite(startTime) || !Number.isFinite(endTime)) {
+      issues.push({ kind: 'dropped', segmentId: id, message: `片段「${text.slice(0, 12)}」缺少有效时间，已丢弃` });
+      return;
+    }
+    if (endTime < startTime) {
+      [startTime, endTime] = [endTime, startTime];
+      issues.push({ kind: 'swapped', segmentId: id, message: `片段「${text.slice(0, 12)}」的开始与结束时间颠倒，已交换` });
+    }
+
+    const clampedStart = Math.max(0, duration > 0 ? Math.min(startTime, duration) : startTime);
+    const clampedEnd = Math.max(0, duration > 0 ? Math.min(endTime, duration) : endTime);
+    if (clampedStart !== startTime || clampedEnd !== endTime) {
+      issues.push({ kind: 'clamped', segmentId: id, message: `片段「${text.slice(0, 12)}」超出视频范围，已裁剪` });
+    }
+    if (clampedEnd - clampedStart < MIN_DURATION) {
+      issues.push({ kind: 'dropped', segmentId: id, message: `片段「${text.slice(0, 12)}」时长为 0，已丢弃` });
+      return;
+    }
+
+    const confidence = toNumber(obj.confidence);
+    const hasConfidence = Number.isFinite(confidence);
+    const hasRedundant = typeof obj.isRedundant === 'boolean';
+    if (!hasConfidence || !hasRedundant) {
+      issues.push({ kind: 'defaulted', segmentId: id, message: `片段「${text.slice(0, 12)}」缺少${!hasConfidence ? '置信度' : '冗余标记'}，已使用默认值` });
+    }
+
+    segments.push({
+      id,
+      startTime: clampedStart,
+      endTime: clampedEnd,
+      text,
+      isRedundant: hasRedundant ? obj.isRedundant as boolean : false,
+      confidence: hasConfidence ? Math.min(1, Math.max(0, confidence)) : DEFAULT_CONFIDENCE
+    });
+  });
+
+  segments.sort((a, b) => a.startTime - b.startTime);
+
+  // 相邻片段重叠时在重叠区中点切开；被完全包含的片段丢弃
+  const resolved: SubtitleSegment[] = [];
+  for (const seg of segments) {
+    const prev = resolved[resolved.length - 1];
+    if (prev && seg.startTime < prev.endTime) {
+      if (seg.endTime <= prev.endTime) {
+        issues.push({ kind: 'overlap', segmentId: seg.id, message: `片段「${seg.text.slice(0, 12)}」完全落在前一片段内，已丢弃` });
+        continue;
+      }
+      const boundary = (seg.startTime + prev.endTime) / 2;
+      if (boundary - prev.startTime < MIN_DURATION) {
+        issues.push({ kind: 'overlap', segmentId: seg.id, message: `片段「${seg.text.slice(0, 12)}」与前一片段几乎完全重叠，已丢弃` });
+        continue;
+      }
+      prev.endTime = boundary;
+      seg.startTime = boundary;
+      issues.push({ kind: 'overlap', segmentId: seg.id, message: `片段「${seg.text.slice(0, 12)}」与前一片段时间重叠，已在 ${boundary.toFixed(2)}s 处切分` });
+    }
+    resolved.push(seg);
+  }
+
+  const seen = new Set<string>();
+  for (const seg of resolved) {
+    if (seen.has(seg.id)) {
+      let n = 2;
+      while (seen.has(`${seg.id}-${n}`)) n++;
+      issues.push({ kind: 'duplicateId', segmentId: seg.id, message: `片段 id「${seg.id}」重复，已改为「${seg.id}-${n}」` });
+      seg.id = `${seg.id}-${n}`;
+    }
+    seen.add(seg.id);
+  }
+
+  return { segments: resolved, issues };
+};
+
+export const ANALYSIS_ISSUE_LABELS: Record<AnalysisIssue['kind'], string> = {
+  parse: '解析',
+  dropped: '丢弃',
+  defaulted: '补全',
+  swapped: '时间颠倒',
+  clamped: '越界',
+  overlap: '重叠',
+  duplicateId: '重复 ID',
+  snapped: '边界校准',
+  silent: '静音'
+};
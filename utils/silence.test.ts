@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createRmsEnvelope } from './silence';
+
+// 采样率 100，每帧 0.02 秒即 2 个采样
+const RATE = 100;
+
+const envelopeOf = (chunks: [Float32Array, number][]) => {
+  const envelope = createRmsEnvelope(RATE);
+  chunks.forEach(([samples, offset]) => envelope.push(samples, offset));
+  return Array.from(envelope.finish(), db => Math.round(db));
+};
+
+describe('createRmsEnvelope', () => {
+  const samples = new Float32Array([0.1, 0.1, 1, 1, 0, 0, 0.5]);
+
+  it('gives the same levels whether the audio arrives at once or in uneven chunks', () => {
+    const whole = envelopeOf([[samples, 0]]);
+    expect(whole).toEqual([-20, 0, -120, -6]);
+    expect(envelopeOf([[samples.subarray(0, 3), 0], [samples.subarray(3, 4), 3], [samples.subarray(4), 4]])).toEqual(whole);
+  });
+
+  it('treats frames without any samples as silence and drops samples before the start', () => {
+    const levels = envelopeOf([[new Float32Array([1, 1, 1, 1]), -2], [new Float32Array([1, 1]), 6]]);
+    expect(levels).toEqual([0, -120, -120, 0]);
+  });
+});
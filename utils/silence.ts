@@ -0,0 +1,205 @@
+import { AnalysisIssue, SilenceSettings, SubtitleSegment } from "../types";
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// RMS 分帧长度（秒）
+export const SILENCE_FRAME_DURATION = 0.02;
+// 片段中静音占比不低于该值时视为纯静音
+const SILENT_SEGMENT_RATIO = 0.9;
+// 校准后片段的最短时长（秒），过短则保留原边界
+const MIN_SNAPPED_DURATION = 0.1;
+// 完全无声时的电平下限（dBFS）
+const FLOOR_DB = -120;
+
+/**
+ * 流式计算逐帧 RMS 电平（dBFS）：按解码顺序逐块送入单声道采样，不需要整段音频常驻内存。
+ * offset 为该块首个采样在整条音轨中的序号；没有收到任何采样的帧按完全无声处理。
+ */
+export const createRmsEnvelope = (sampleRate: number, frameDuration = SILENCE_FRAME_DURATION) => {
+  const frameSize = Math.max(1, Math.round(sampleRate * frameDuration));
+  let sums = new Float64Array(1024);
+  let counts = new Uint32Array(1024);
+  let frameCount = 0;
+
+  const ensure = (frame: number) => {
+    if (frame < sums.length) return;
+    const size = Math.max(frame + 1, sums.length * 2);
+    const nextSums = new Float64Array(size);
+    const nextCounts = new Uint32Array(size);
+    nextSums.set(sums);
+    nextCounts.set(counts);
+    sums = nextSums;
+    counts = nextCounts;
+  };
+
+  return {
+    push: (samples: Float32Array, offset: number) => {
+      // 起点之前的采样（如编码器预滚）直接丢弃
+      let i = Math.max(0, -offset);
+      while (i < samples.length) {
+        const frame = Math.floor((offset + i) / frameSize);
+        const to = Math.min(samples.length, (frame + 1) * frameSize - offset);
+        let sum = 0;
+        for (let j = i; j < to; j++) sum += samples[j] * samples[j];
+        ensure(frame);
+        sums[frame] += sum;
+        counts[frame] += to - i;
+        frameCount = Math.max(frameCount, frame + 1);
+        i = to;
+      }
+    },
+    finish: (): Float32Array => {
+      const frames = new Float32Array(frameCount);
+      for (let f = 0; f < frameCount; f++) {
+        const rms = counts[f] > 0 ? Math.sqrt(sums[f] / counts[f]) : 0;
+        frames[f] = rms > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(rms)) : FLOOR_DB;
+      }
+      return frames;
+    }
+  };
+};
+
+/**
+ * 找出电平持续低于阈值且不短于 minSilence 的区间。
+ */
+export const detectSilence = (
+  envelope: Float32Array,
+  options: Pick<SilenceSettings, 'thresholdDb' | 'minSilence'>,
+  frameDuration = SILENCE_FRAME_DURATION
+): TimeRange[] => {
+  const regions: TimeRange[] = [];
+  let runStart = -1;
+  const close = (endFrame: number) => {
+    if (runStart < 0) return;
+    const start = runStart * frameDuration;
+    const end = endFrame * frameDuration;
+    if (end - start >= options.minSilence) regions.push({ start, end });
+    runStart = -1;
+  };
+
+  for (let f = 0; f < envelope.length; f++) {
+    if (envelope[f] < options.thresholdDb) {
+      if (runStart < 0) runStart = f;
+    } else {
+      close(f);
+    }
+  }
+  close(envelope.length);
+  return regions;
+};
+
+// 静音区间的补集即语音区间
+export const speechRegions = (silences: TimeRange[], duration: number): TimeRange[] => {
+  const regions: TimeRange[] = [];
+  let cursor = 0;
+  for (const silence of silences) {
+    if (silence.start > cursor) regions.push({ start: cursor, end: silence.start });
+    cursor = Math.max(cursor, silence.end);
+  }
+  if (duration > cursor) regions.push({ start: cursor, end: duration });
+  return regions;
+};
+
+const silentOverlap = (seg: TimeRange, silences: TimeRange[]) =>
+  silences.reduce((sum, s) => sum + Math.max(0, Math.min(seg.end, s.end) - Math.max(seg.start, s.start)), 0);
+
+/**
+ * 将几乎完全落在静音中的片段标记为冗余，返回新列表与被标记的数量。
+ */
+export const markSilentSegments = (segments: SubtitleSegment[], silences: TimeRange[]) => {
+  let marked = 0;
+  const result = segments.map(seg => {
+    const length = seg.endTime - seg.startTime;
+    const silent = length > 0 && silentOverlap({ start: seg.startTime, end: seg.endTime }, silences) / length >= SILENT_SEGMENT_RATIO;
+    if (!silent || seg.isRedundant) return seg;
+    marked++;
+    return { ...seg, isRedundant: true };
+  });
+  return { segments: result, marked };
+};
+
+/**
+ * 片段起点吸附到最近的语音起点、终点吸附到最近的语音终点：
+ * 落在静音中的边界向语音收缩以去掉空白，落在语音中的边界向外扩展以免切掉字头字尾。
+ * 移动距离不超过 snapRange，且不与相邻片段重叠。segments 需按开始时间排序。
+ */
+export const snapSegmentsToSpeech = (segments: SubtitleSegment[], silences: TimeRange[], snapRange: number) => {
+  const onsets = silences.map(s => s.end);
+  const offsets = silences.map(s => s.start);
+  const inside = (t: number) => silences.find(s => t > s.start && t < s.end);
+  let snapped = 0;
+
+  const result: SubtitleSegment[] = [];
+  segments.forEach((seg, i) => {
+    let start = seg.startTime;
+    let end = seg.endTime;
+
+    const startSilence = inside(start);
+    if (startSilence) {
+      if (startSilence.end - start <= snapRange) start = startSilence.end;
+    } else {
+      const onset = onsets.filter(t => t <= start && start - t <= snapRange).pop();
+      if (onset !== undefined) start = onset;
+    }
+
+    const endSilence = inside(end);
+    if (endSilence) {
+      if (end - endSilence.start <= snapRange) end = endSilence.start;
+    } else {
+      const offset = offsets.find(t => t >= end && t - end <= snapRange);
+      if (offset !== undefined) end = offset;
+    }
+
+    const prevEnd = result[i - 1]?.endTime ?? 0;
+    const nextStart = segments[i + 1]?.startTime ?? Infinity;
+    start = Math.max(start, prevEnd);
+    end = Math.min(end, Math.max(nextStart, seg.endTime));
+
+    if (end - start < MIN_SNAPPED_DURATION || (start === seg.startTime && end === seg.endTime)) {
+      result.push(seg.startTime >= prevEnd ? seg : { ...seg, startTime: prevEnd });
+      return;
+    }
+    snapped++;
+    result.push({ ...seg, startTime: start, endTime: end });
+  });
+  return { segments: result, snapped };
+};
+
+/**
+ * 无 AI 服务时直接由音频生成片段：语音区间保留，静音区间标记为冗余。
+ */
+export const silenceToSegments = (silences: TimeRange[], duration: number): SubtitleSegment[] => {
+  const ranges = [
+    ...speechRegions(silences, duration).map(r => ({ ...r, silent: false })),
+    ...silences.map(r => ({ ...r, silent: true }))
+  ].sort((a, b) => a.start - b.start);
+
+  let speechIndex = 0;
+  return ranges.map((r, i) => ({
+    id: `${r.silent ? 'silence' : 'speech'}-${i + 1}`,
+    startTime: r.start,
+    endTime: r.end,
+    text: r.silent ? '[静音]' : `[语音 ${++speechIndex}]`,
+    isRedundant: r.silent,
+    confidence: 1
+  }));
+};
+
+/**
+ * 分析完成后的音频校准：先标记纯静音片段，再吸附边界，结果以汇总问题的形式报告。
+ */
+export const refineSegmentsWithSilence = (segments: SubtitleSegment[], silences: TimeRange[], snapRange: number) => {
+  const marked = markSilentSegments(segments, silences);
+  const snapped = snapSegmentsToSpeech(marked.segments, silences, snapRange);
+  const issues: AnalysisIssue[] = [];
+  if (snapped.snapped > 0) {
+    issues.push({ kind: 'snapped', message: `按语音起止点校准了 ${snapped.snapped} 个片段的边界` });
+  }
+  if (marked.marked > 0) {
+    issues.push({ kind: 'silent', message: `${marked.marked} 个片段几乎没有声音，已标记为冗余` });
+  }
+  return { segments: snapped.segments, issues };
+};
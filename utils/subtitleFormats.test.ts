@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment } from '../types';
+import {
+  detectSubtitleFormat,
+  formatAssTime,
+  formatSrtTime,
+  formatSubtitles,
+  formatVttTime,
+  parseSubtitles
+} from './subtitleFormats';
+
+const seg = (id: string, startTime: number, endTime: number, text: string): SubtitleSegment => ({
+  id,
+  startTime,
+  endTime,
+  text,
+  isRedundant: false,
+  confidence: 1
+});
+
+const segs = [seg('a', 1.5, 3.25, '第一行\n第二行'), seg('b', 3661.007, 3662, 'Hello, world')];
+
+describe('timestamp formatting', () => {
+  it('formats SRT, VTT and ASS times', () => {
+    expect(formatSrtTime(3661.007)).toBe('01:01:01,007');
+    expect(formatVttTime(3661.007)).toBe('01:01:01.007');
+    expect(formatAssTime(3661.007)).toBe('1:01:01.01');
+  });
+
+  it('rounds to whole milliseconds and clamps negatives to zero', () => {
+    expect(formatSrtTime(0.9995)).toBe('00:00:01,000');
+    expect(formatSrtTime(-1)).toBe('00:00:00,000');
+  });
+});
+
+describe('formatSubtitles', () => {
+  it('writes numbered SRT cues', () => {
+    expect(formatSubtitles(segs, 'srt')).toBe(
+      '1\n00:00:01,500 --> 00:00:03,250\n第一行\n第二行\n\n2\n01:01:01,007 --> 01:01:02,000\nHello, world\n'
+    );
+  });
+
+  it('writes a WebVTT header and uses segment ids as cue ids', () => {
+    expect(formatSubtitles(segs, 'vtt')).toMatch(/^WEBVTT\n\na\n00:00:01\.500 --> 00:00:03\.250\n/);
+  });
+
+  it('escapes line breaks in ASS dialogue', () => {
+    expect(formatSubtitles(segs, 'ass')).toContain('Dialogue: 0,0:00:01.50,0:00:03.25,Default,,0,0,0,,第一行\\N第二行');
+  });
+});
+
+describe('parseSubtitles', () => {
+  it.each(['srt', 'vtt', 'ass'] as const)('round-trips %s', format => {
+    const parsed = parseSubtitles(formatSubtitles(segs, format), format);
+    expect(parsed.map(s => s.text)).toEqual(['第一行\n第二行', 'Hello, world']);
+    expect(parsed[0].startTime).toBeCloseTo(1.5, 2);
+    expect(parsed[1].endTime).toBeCloseTo(3662, 2);
+  });
+
+  it('ignores VTT cue settings, markup and malformed blocks', () => {
+    const content = 'WEBVTT\n\n00:01.000 --> 00:02.000 align:start\n<b>粗体</b>\n\nbroken --> cue\ntext\n';
+    expect(parseSubtitles(content, 'vtt')).toEqual([seg('import-1', 1, 2, '粗体')]);
+  });
+
+  it('keeps commas in ASS text and strips override tags', () => {
+    const content = '[Events]\nFormat: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n'
+      + 'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\b1}一,二\\h三\n';
+    expect(parseSubtitles(content, 'ass')[0].text).toBe('一,二 三');
+  });
+});
+
+describe('detectSubtitleFormat', () => {
+  it('prefers the file extension and falls back to sniffing the content', () => {
+    expect(detectSubtitleFormat('a.SSA', '')).toBe('ass');
+    expect(detectSubtitleFormat('a.txt', 'WEBVTT\n')).toBe('vtt');
+    expect(detectSubtitleFormat('a.txt', '[Script Info]\n')).toBe('ass');
+    expect(detectSubtitleFormat('a.txt', '1\n00:00:01,000 --> 00:00:02,000\n')).toBe('srt');
+    expect(detectSubtitleFormat('a.txt', 'plain text')).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+import { SubtitleSegment } from "../types";
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// 将秒数拆分为时/分/秒/毫秒，统一按毫秒取整避免浮点误差
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor((totalMs % 3600000) / 60000),
+    s: Math.floor((totalMs % 60000) / 1000),
+    ms: totalMs % 1000
+  };
+};
+
+export const formatSrtTime = (seconds: number): string => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+export const formatVttTime = (seconds: number): string => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+};
+
+// ASS 只精确到百分之一秒，小时不补零
+export const formatAssTime = (seconds: number): string => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(totalCs / 360000);
+  const m = Math.floor((totalCs % 360000) / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(totalCs % 100)}`;
+};
+
+export const toSrt = (segs: SubtitleSegment[]): string =>
+  segs.map((seg, i) =>
+    `${i + 1}\n${formatSrtTime(seg.startTime)} --> ${formatSrtTime(seg.endTime)}\n${seg.text.trim()}\n`
+  ).join('\n');
+
+export const toVtt = (segs: SubtitleSegment[]): string =>
+  'WEBVTT\n\n' + segs.map(seg =>
+    `${seg.id}\n${formatVttTime(seg.startTime)} --> ${formatVttTime(seg.endTime)}\n${seg.text.trim()}\n`
+  ).join('\n');
+
+export const toAss = (segs: SubtitleSegment[], title = 'NovaClip'): string => {
+  const header = [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    'WrapStyle: 0',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Microsoft YaHei,60,&H00FFFFFF,&H00FFFFFF,&H33000000,&H00000000,-1,0,0,0,100,100,0,0,1,4,0,2,144,144,86,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+  ];
+  const events = segs.map(seg => {
+    const text = seg.text.trim().replace(/\r?\n/g, '\\N');
+    return `Dialogue: 0,${formatAssTime(seg.startTime)},${formatAssTime(seg.endTime)},Default,,0,0,0,,${text}`;
+  });
+  return [...header, ...events, ''].join('\n');
+};
+
+export const formatSubtitles = (segs: SubtitleSegment[], format: SubtitleFormat): string => {
+  switch (format) {
+    case 'srt': return toSrt(segs);
+    case 'vtt': return toVtt(segs);
+    case 'ass': return toAss(segs);
+  }
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa'
+};
+
+// 解析 "HH:MM:SS,mmm" / "MM:SS.mmm" / "H:MM:SS.cc" 等时间格式
+export const parseTimestamp = (value: string): number => {
+  const parts = value.trim().replace(',', '.').split(':');
+  if (parts.length < 2 || parts.length > 3) return NaN;
+  const [h, m, s] = parts.length === 3 ? parts : ['0', ...parts];
+  return Number(h) * 3600 + Number(m) * 60 + Number(s);
+};
+
+const makeSegment = (index: number, startTime: number, endTime: number, text: string): SubtitleSegment => ({
+  id: `import-${index + 1}`,
+  startTime,
+  endTime,
+  text,
+  isRedundant: false,
+  confidence: 1
+});
+
+// SRT 与 WebVTT 结构相同：空行分隔的块，块内含 "-->" 的一行为时间轴
+const parseCueBlocks = (content: string): SubtitleSegment[] => {
+  const segs: SubtitleSegment[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->');
+    // WebVTT 的时间轴后面可能跟有 cue 设置，如 "align:start"
+    const startTime = parseTimestamp(startRaw);
+    const endTime = parseTimestamp(endRaw.trim().split(/\s+/)[0]);
+    if (isNaN(startTime) || isNaN(endTime)) continue;
+
+    const text = lines.slice(timingIndex + 1).join('\n').replace(/<[^>]+>/g, '').trim();
+    if (!text) continue;
+    segs.push(makeSegment(segs.length, startTime, endTime, text));
+  }
+  return segs;
+};
+
+const parseAss = (content: string): SubtitleSegment[] => {
+  const segs: SubtitleSegment[] = [];
+  let fields: string[] = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+  let inEvents = false;
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (line.startsWith('Format:')) {
+      fields = line.slice('Format:'.length).split(',').map(f => f.trim());
+      continue;
+    }
+    if (!line.startsWith('Dialogue:')) continue;
+
+    // Text 永远是最后一个字段，本身可能包含逗号
+    const values = line.slice('Dialogue:'.length).split(',');
+    const head = values.slice(0, fields.length - 1).map(v => v.trim());
+    const rawText = values.slice(fields.length - 1).join(',');
+    const startTime = parseTimestamp(head[fields.indexOf('Start')] ?? '');
+    const endTime = parseTimestamp(head[fields.indexOf('End')] ?? '');
+    if (isNaN(startTime) || isNaN(endTime)) continue;
+
+    const text = rawText
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+      .trim();
+    if (!text) continue;
+    segs.push(makeSegment(segs.length, startTime, endTime, text));
+  }
+  return segs;
+};
+
+export const detectSubtitleFormat = (fileName: string, content: string): SubtitleFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'srt' || ext === 'vtt') return ext;
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+  const head = content.trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('[Script Info]')) return 'ass';
+  if (/-->/.test(head)) return 'srt';
+  return null;
+};
+
+export const parseSubtitles = (content: string, format: SubtitleFormat): SubtitleSegment[] => {
+  const segs = format === 'ass' ? parseAss(content) : parseCueBlocks(content);
+  return segs.sort((a, b) => a.startTime - b.startTime);
+};
+
+export const parseSubtitleFile = async (file: File): Promise<SubtitleSegment[]> => {
+  const content = await file.text();
+  const format = detectSubtitleFormat(file.name, content);
+  if (!format) throw new Error(`无法识别的字幕格式: ${file.name}`);
+  const segs = parseSubtitles(content, format);
+  if (segs.length === 0) throw new Error(`字幕文件中没有可用的条目: ${file.name}`);
+  return segs;
+};
@@ -0,0 +1,174 @@
+import { SubtitleStyle } from "../types";
+import { hexToRgba } from "./subtitleStyle";
+import { breakLines, pageIndexAt, paginateLines } from "./lineBreak";
+
+export type SubtitleContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// 样式中的像素值以 1080p 为基准
+const REFERENCE_HEIGHT = 1080;
+
+// 行数超出上限时先逐级缩小字号，仍放不下再按时间分页
+const FONT_SHRINK_STEPS = [1, 0.9, 0.8];
+// 双语字幕两块之间的间距（1080p 基准像素）
+const CAPTION_GAP = 12;
+
+export interface SubtitleLayout {
+  pages: string[][];
+  fontSize: number;
+  lineHeight: number;
+  x: number;
+  maxWidth: number;
+}
+
+// 一条字幕中的一种语言及其样式
+export interface CaptionTrack {
+  text: string;
+  style: SubtitleStyle;
+}
+
+export interface CaptionBlock {
+  layout: SubtitleLayout;
+  style: SubtitleStyle;
+}
+
+const fontFor = (style: SubtitleStyle, fontSize: number) =>
+  `${style.bold ? 'bold ' : ''}${fontSize}px "${style.fontFamily}", sans-serif`;
+
+/**
+ * 计算字幕在给定画面尺寸下的排版。预览叠加层和最终合成共用这一计算，保证所见即所得。
+ */
+export const layoutSubtitle = (
+  ctx: SubtitleContext,
+  text: string,
+  style: SubtitleStyle,
+  width: number,
+  height: number
+): SubtitleLayout => {
+  const scale = height / REFERENCE_HEIGHT;
+  const maxWidth = width * style.maxWidthRatio;
+  const measure = (t: string) => ctx.measureText(t).width;
+
+  let fontSize = 1;
+  let lines: string[] = [];
+  for (const step of FONT_SHRINK_STEPS) {
+    fontSize = Math.max(1, Math.floor(style.fontSize * scale * step));
+    ctx.font = fontFor(style, fontSize);
+    lines = breakLines(text, maxWidth, measure);
+    if (lines.length <= style.maxLines) break;
+  }
+
+  const x = style.align === 'left'
+    ? (width - maxWidth) / 2
+    : style.align === 'right' ? (width + maxWidth) / 2 : width / 2;
+
+  return {
+    pages: paginateLines(lines, style.maxLines),
+    fontSize,
+    lineHeight: fontSize * style.lineSpacing,
+    x,
+    maxWidth
+  };
+};
+
+const blockTop = (style: SubtitleStyle, height: number, blockHeight: number) => {
+  switch (style.position) {
+    case 'top': return height * style.marginV;
+    case 'middle': return (height - blockHeight) / 2;
+    case 'custom': return height * style.customY - blockHeight / 2;
+    default: return height * (1 - style.marginV) - blockHeight;
+  }
+};
+
+/**
+ * top 未指定时按样式的位置计算文本块顶部；双语排版时由调用方给出。
+ */
+export const drawSubtitleLayout = (
+  ctx: SubtitleContext,
+  layout: SubtitleLayout,
+  pageIndex: number,
+  style: SubtitleStyle,
+  height: number,
+  top?: number
+) => {
+  const lines = layout.pages[pageIndex] ?? [];
+  if (lines.length === 0) return;
+  const scale = height / REFERENCE_HEIGHT;
+  const { fontSize, lineHeight, x } = layout;
+  if (top === undefined) top = blockTop(style, height, lines.length * lineHeight);
+
+  ctx.save();
+  ctx.font = fontFor(style, fontSize);
+  ctx.textAlign = style.align;
+  ctx.textBaseline = 'bottom';
+
+  if (style.backgroundEnabled) {
+    const padding = style.backgroundPadding * scale;
+    const textWidth = Math.max(...lines.map(l => ctx.measureText(l).width));
+    const left = style.align === 'left' ? x : style.align === 'right' ? x - textWidth : x - textWidth / 2;
+    ctx.fillStyle = hexToRgba(style.backgroundColor, style.backgroundOpacity);
+    ctx.fillRect(left - padding, top - padding, textWidth + padding * 2, lines.length * lineHeight + padding * 2);
+  }
+
+  ctx.fillStyle = style.color;
+  ctx.strokeStyle = hexToRgba(style.outlineColor, style.outlineOpacity);
+  ctx.lineWidth = style.outlineWidth * scale;
+  ctx.lineJoin = 'round';
+
+  lines.forEach((line, i) => {
+    const y = top + (i + 1) * lineHeight;
+    if (style.outlineWidth > 0) ctx.strokeText(line, x, y);
+    ctx.fillText(line, x, y);
+  });
+  ctx.restore();
+};
+
+/**
+ * progress 为当前时刻在片段内的进度（0-1），用于选择分页后的字幕页。
+ */
+export const drawSubtitle = (
+  ctx: SubtitleContext,
+  text: string,
+  style: SubtitleStyle,
+  width: number,
+  height: number,
+  progress = 0
+) => {
+  if (!text.trim()) return;
+  const layout = layoutSubtitle(ctx, text, style, width, height);
+  drawSubtitleLayout(ctx, layout, pageIndexAt(layout.pages, progress), style, height);
+};
+
+export const layoutCaption = (
+  ctx: SubtitleContext,
+  tracks: CaptionTrack[],
+  width: number,
+  height: number
+): CaptionBlock[] =>
+  tracks
+    .filter(track => track.text.trim())
+    .map(track => ({ layout: layoutSubtitle(ctx, track.text, track.style, width, height), style: track.style }));
+
+/**
+ * 绘制一条（可能是双语的）字幕。多个文本块作为整体按第一块的位置排布，后续块依次紧贴在下方，
+ * 各块独立分页。
+ */
+export const drawCaption = (ctx: SubtitleContext, blocks: CaptionBlock[], progress: number, height: number) => {
+  if (blocks.length === 0) return;
+  const pageIndexes = blocks.map(b => pageIndexAt(b.layout.pages, progress));
+  if (blocks.length === 1) {
+    drawSubtitleLayout(ctx, blocks[0].layout, pageIndexes[0], blocks[0].style, height);
+    return;
+  }
+
+  const scale = height / REFERENCE_HEIGHT;
+  const padding = (style: SubtitleStyle) => (style.backgroundEnabled ? style.backgroundPadding * scale : 0);
+  const heights = blocks.map((b, i) => (b.layout.pages[pageIndexes[i]]?.length ?? 0) * b.layout.lineHeight);
+  const gaps = blocks.slice(1).map((b, i) => CAPTION_GAP * scale + padding(blocks[i].style) + padding(b.style));
+  const total = heights.reduce((sum, h) => sum + h, 0) + gaps.reduce((sum, g) => sum + g, 0);
+
+  let top = blockTop(blocks[0].style, height, total);
+  blocks.forEach((block, i) => {
+    drawSubtitleLayout(ctx, block.layout, pageIndexes[i], block.style, height, top);
+    top += heights[i] + (gaps[i] ?? 0);
+  });
+};
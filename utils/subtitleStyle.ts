@@ -0,0 +1,89 @@
+import { SubtitleStyle, SubtitleStylePreset } from "../types";
+
+// 与最初硬编码的烧录样式一致：粗体微软雅黑、白字黑边、字号为画面高度 1/18、底部 92%
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontFamily: 'Microsoft YaHei',
+  bold: true,
+  fontSize: 60,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  outlineOpacity: 0.8,
+  outlineWidth: 7.5,
+  backgroundEnabled: false,
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.5,
+  backgroundPadding: 12,
+  position: 'bottom',
+  marginV: 0.08,
+  customY: 0.5,
+  align: 'center',
+  lineSpacing: 1.2,
+  maxLines: 3,
+  maxWidthRatio: 0.85
+};
+
+export const BUILT_IN_STYLE_PRESETS: SubtitleStylePreset[] = [
+  { name: '经典白字黑边', style: DEFAULT_SUBTITLE_STYLE, builtIn: true },
+  {
+    name: '黑底字幕条',
+    builtIn: true,
+    style: {
+      ...DEFAULT_SUBTITLE_STYLE,
+      bold: false,
+      fontSize: 52,
+      outlineWidth: 0,
+      backgroundEnabled: true,
+      backgroundOpacity: 0.65,
+      maxLines: 2
+    }
+  },
+  {
+    name: '短视频大字',
+    builtIn: true,
+    style: {
+      ...DEFAULT_SUBTITLE_STYLE,
+      fontSize: 84,
+      color: '#ffe14d',
+      outlineWidth: 10,
+      outlineOpacity: 1,
+      position: 'middle',
+      maxLines: 2,
+      maxWidthRatio: 0.9
+    }
+  },
+  {
+    name: '顶部说明',
+    builtIn: true,
+    style: {
+      ...DEFAULT_SUBTITLE_STYLE,
+      bold: false,
+      fontSize: 44,
+      position: 'top',
+      marginV: 0.06,
+      align: 'left',
+      outlineWidth: 5
+    }
+  }
+];
+
+const PRESETS_KEY = 'novaclip.stylePresets';
+
+export const loadCustomPresets = (): SubtitleStylePreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]') as SubtitleStylePreset[];
+    return saved.map(p => ({ name: p.name, style: { ...DEFAULT_SUBTITLE_STYLE, ...p.style } }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: SubtitleStylePreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
+
+export const hexToRgba = (hex: string, alpha: number) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const n = parseInt(full, 16);
+  return `rgba(${(n >> 16) & 255},${(n >> 8) & 255},${n & 255},${alpha})`;
+};
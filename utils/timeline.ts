@@ -0,0 +1,74 @@
+import { SubtitleSegment } from "../types";
+
+// 修剪后片段的最短时长（秒）
+export const MIN_CLIP_DURATION = 0.1;
+// 吸附距离（像素），换算成秒时需除以缩放比例
+export const SNAP_DISTANCE_PX = 8;
+
+export const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+};
+
+export const replaceAt = <T,>(items: T[], index: number, update: (item: T) => T): T[] =>
+  items.map((item, i) => (i === index ? update(item) : item));
+
+/**
+ * 成片时间轴上每个片段的起点（秒），片段首尾相接。
+ */
+export const sequenceOffsets = (clips: SubtitleSegment[]): number[] => {
+  let cursor = 0;
+  return clips.map(clip => {
+    const offset = cursor;
+    cursor += clip.endTime - clip.startTime;
+    return offset;
+  });
+};
+
+export const sequenceDuration = (clips: SubtitleSegment[]) =>
+  clips.reduce((sum, clip) => sum + clip.endTime - clip.startTime, 0);
+
+export const snapTime = (time: number, candidates: number[], threshold: number): number => {
+  let best = time;
+  let bestDistance = threshold;
+  for (const candidate of candidates) {
+    const distance = Math.abs(candidate - time);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/**
+ * 修剪片段的入点或出点。允许超出 AI 识别的边界，但不能越过视频范围或使片段短于最短时长。
+ */
+export const trimClip = (
+  clip: SubtitleSegment,
+  edge: 'start' | 'end',
+  time: number,
+  duration: number
+): SubtitleSegment => {
+  const max = duration > 0 ? duration : Infinity;
+  if (edge === 'start') {
+    return { ...clip, startTime: Math.max(0, Math.min(time, clip.endTime - MIN_CLIP_DURATION)) };
+  }
+  return { ...clip, endTime: Math.min(max, Math.max(time, clip.startTime + MIN_CLIP_DURATION)) };
+};
+
+/**
+ * 将源视频时间映射到成片时间轴上的位置；不在任何片段内时返回 null。
+ * offsets 为各片段在成片中的起点，默认首尾相接排列。
+ */
+export const sourceToSequenceTime = (
+  clips: SubtitleSegment[],
+  time: number,
+  offsets = sequenceOffsets(clips)
+): number | null => {
+  const index = clips.findIndex(c => time >= c.startTime && time < c.endTime);
+  return index >= 0 ? offsets[index] + time - clips[index].startTime : null;
+};
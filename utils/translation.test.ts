@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment } from '../types';
+import {
+  DEFAULT_CAPTION_SETTINGS,
+  SOURCE_LANGUAGE,
+  applyTranslations,
+  countUntranslated,
+  localizedSubtitleFiles,
+  removeLanguage,
+  translatedLanguages,
+  translationUnits,
+  withoutCaptionLanguage
+} from './translation';
+
+const seg = (id: string, text: string, translations?: Record<string, string>): SubtitleSegment => ({
+  id,
+  startTime: 0,
+  endTime: 1,
+  text,
+  isRedundant: false,
+  confidence: 1,
+  translations
+});
+
+describe('translations on segments', () => {
+  it('applies and removes one language without touching others', () => {
+    const segs = applyTranslations([seg('a', '你好', { ja: 'こんにちは' }), seg('b', '再见')], 'en', { a: 'Hello' });
+    expect(segs[0].translations).toEqual({ ja: 'こんにちは', en: 'Hello' });
+    expect(segs[1].translations).toBeUndefined();
+    expect(removeLanguage(segs, 'en')[0].translations).toEqual({ ja: 'こんにちは' });
+  });
+
+  it('lists known languages first in table order', () => {
+    expect(translatedLanguages([seg('a', 'x', { xx: '?', ja: 'x' }), seg('b', 'y', { en: 'y' })])).toEqual(['en', 'ja', 'xx']);
+  });
+
+  it('adds queue-only clips to the translation units once', () => {
+    const units = translationUnits([seg('a', 'x')], [seg('a', 'x'), seg('m', 'merged'), seg('m', 'merged')]);
+    expect(units.map(u => u.id)).toEqual(['a', 'm']);
+  });
+
+  it('counts units with text that came back untranslated', () => {
+    expect(countUntranslated([seg('a', 'x'), seg('b', ' '), seg('c', 'z')], { a: 'X' })).toBe(1);
+  });
+});
+
+describe('localizedSubtitleFiles', () => {
+  it('writes the source file plus one file per language that has text', () => {
+    const segs = [seg('a', '你好', { en: 'Hello' }), seg('b', '再见')];
+    const files = localizedSubtitleFiles(segs, ['en', 'ja'], 'clip_edit', 'srt');
+    expect(files.map(f => f.name)).toEqual(['clip_edit.srt', 'clip_edit.en.srt']);
+    expect(files[1].content).toBe('1\n00:00:00,000 --> 00:00:01,000\nHello\n');
+  });
+});
+
+describe('withoutCaptionLanguage', () => {
+  it('falls back to the source text and single mode when a used language is removed', () => {
+    const captions = { ...DEFAULT_CAPTION_SETTINGS, mode: 'bilingual' as const, primaryLanguage: 'ja', secondaryLanguage: 'en' };
+    expect(withoutCaptionLanguage(captions, 'ja')).toMatchObject({ primaryLanguage: SOURCE_LANGUAGE, mode: 'bilingual' });
+    expect(withoutCaptionLanguage(captions, 'en')).toMatchObject({ primaryLanguage: 'ja', mode: 'single' });
+  });
+});
@@ -0,0 +1,133 @@
+import { CaptionLanguage, CaptionSettings, SubtitleSegment, SubtitleStyle } from "../types";
+import { CaptionTrack } from "./subtitleRenderer";
+import { DEFAULT_SUBTITLE_STYLE } from "./subtitleStyle";
+import { SubtitleFormat, formatSubtitles } from "./subtitleFormats";
+
+export const SOURCE_LANGUAGE = 'source';
+
+// 可选的翻译目标语言，值为提示词与界面中使用的名称
+export const TRANSLATION_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  zh: '简体中文',
+  'zh-Hant': '繁體中文',
+  ja: '日本語',
+  ko: '한국어',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch'
+};
+
+// 每次请求翻译的字幕条数
+export const TRANSLATION_BATCH_SIZE = 40;
+
+export const CAPTION_MODE_LABELS: Record<CaptionSettings['mode'], string> = {
+  single: '单语',
+  bilingual: '双语'
+};
+
+export const DEFAULT_SECONDARY_STYLE: SubtitleStyle = {
+  ...DEFAULT_SUBTITLE_STYLE,
+  bold: false,
+  fontSize: 42,
+  color: '#ffe9a8',
+  outlineWidth: 5,
+  maxLines: 2
+};
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  mode: 'single',
+  primaryLanguage: SOURCE_LANGUAGE,
+  secondaryLanguage: 'en',
+  secondaryStyle: DEFAULT_SECONDARY_STYLE
+};
+
+export const languageLabel = (code: CaptionLanguage) =>
+  code === SOURCE_LANGUAGE ? '原文' : TRANSLATION_LANGUAGES[code] ?? code;
+
+// 字幕中出现过的译文语言，按语言表顺序排列；从数据推导以便与撤销历史保持一致
+export const translatedLanguages = (segs: SubtitleSegment[]): string[] => {
+  const found = new Set(segs.flatMap(seg => Object.keys(seg.translations ?? {})));
+  const known = Object.keys(TRANSLATION_LANGUAGES).filter(code => found.has(code));
+  return [...known, ...[...found].filter(code => !(code in TRANSLATION_LANGUAGES))];
+};
+
+export const segmentText = (seg: SubtitleSegment, language: CaptionLanguage) =>
+  language === SOURCE_LANGUAGE ? seg.text : seg.translations?.[language] ?? '';
+
+/**
+ * 烧录用的字幕轨道。单语时缺少译文回退到原文；双语时缺少的一行直接省略。
+ */
+export const captionTracks = (seg: SubtitleSegment, style: SubtitleStyle, captions: CaptionSettings): CaptionTrack[] => {
+  const primary = segmentText(seg, captions.primaryLanguage) || seg.text;
+  if (captions.mode === 'single') return [{ text: primary, style }];
+  return [
+    { text: primary, style },
+    { text: segmentText(seg, captions.secondaryLanguage), style: captions.secondaryStyle }
+  ];
+};
+
+// 以指定语言的文本替换 text，用于按语言导出字幕文件；没有译文的片段被跳过
+export const segmentsInLanguage = (segs: SubtitleSegment[], language: CaptionLanguage): SubtitleSegment[] =>
+  segs
+    .map(seg => ({ ...seg, text: segmentText(seg, language) }))
+    .filter(seg => seg.text.trim());
+
+/**
+ * 按语言拆分的字幕文件：原文为 base.format，每种译文为 base.语言代码.format，没有内容的语言不生成文件。
+ */
+export const localizedSubtitleFiles = (
+  segs: SubtitleSegment[],
+  languages: string[],
+  base: string,
+  format: SubtitleFormat
+): { name: string; content: string }[] =>
+  [SOURCE_LANGUAGE, ...languages].flatMap(language => {
+    const localized = segmentsInLanguage(segs, language);
+    if (localized.length === 0) return [];
+    const name = language === SOURCE_LANGUAGE ? `${base}.${format}` : `${base}.${language}.${format}`;
+    return [{ name, content: formatSubtitles(localized, format) }];
+  });
+
+export const applyTranslations = (
+  segs: SubtitleSegment[],
+  language: string,
+  translated: Record<string, string>
+): SubtitleSegment[] =>
+  segs.map(seg =>
+    seg.id in translated
+      ? { ...seg, translations: { ...seg.translations, [language]: translated[seg.id] } }
+      : seg
+  );
+
+export const removeLanguage = (segs: SubtitleSegment[], language: string): SubtitleSegment[] =>
+  segs.map(seg => {
+    if (!seg.translations || !(language in seg.translations)) return seg;
+    const { [language]: _removed, ...rest } = seg.translations;
+    return { ...seg, translations: rest };
+  });
+
+// 删除某种译文后，烧录设置中引用它的主语言回退到原文，副语言被删除时退回单语
+export const withoutCaptionLanguage = (captions: CaptionSettings, language: string): CaptionSettings => ({
+  ...captions,
+  primaryLanguage: captions.primaryLanguage === language ? SOURCE_LANGUAGE : captions.primaryLanguage,
+  mode: captions.secondaryLanguage === language ? 'single' : captions.mode
+});
+
+// 有文本却没有拿到译文的条目数
+export const countUntranslated = (units: SubtitleSegment[], translated: Record<string, string>) =>
+  units.filter(u => u.text.trim() && !(u.id in translated)).length;
+
+/**
+ * 需要翻译的字幕：字幕列表加上队列中独有的片段（如粗剪合并出的片段），按 id 去重。
+ */
+export const translationUnits = (segments: SubtitleSegment[], clips: SubtitleSegment[]): SubtitleSegment[] => {
+  const ids = new Set(segments.map(s => s.id));
+  const extra = clips.filter(c => !ids.has(c.id) && (ids.add(c.id), true));
+  return [...segments, ...extra];
+};
+
+export const chunkArray = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -18,6 +19,12 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // 单元测试只覆盖纯逻辑，运行在 Node 中；浏览器端渲染测试见 e2e/，由 Playwright 运行
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**', 'dist/**', 'e2e/**'],
+        environment: 'node'
       }
     };
 });